@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import AccessibleSummary from './components/AccessibleSummary';
+import BirthStats from './components/BirthStats';
+import CaptureControls from './components/CaptureControls';
+import ConfigWarnings from './components/ConfigWarnings';
+import DailyProgress from './components/DailyProgress';
+import MetricCounter from './components/MetricCounter';
+import MilestoneOverlay from './components/MilestoneOverlay';
+import MomentsLog from './components/MomentsLog';
+import RecentBirths from './components/RecentBirths';
+import SyncBadge from './components/SyncBadge';
+import WorldMap from './components/WorldMap';
+import { THEME_NAMES, THEMES } from './constants';
+import { AppConfig, BirthRateDataset, ConfigWarning, DayProgress, Milestone, SimulationUpdate, ThemeName } from './types';
+import { createBirthSimulation } from './utils/birthSimulation';
+import { accessibleHudColors, withAlpha } from './utils/color';
+import { createI18n } from './utils/i18n';
+import { createMetricSimulation, METRIC_BY_ID } from './utils/metrics';
+import { announceMilestone, createMilestoneWatcher } from './utils/milestones';
+import { prefersReducedMotion, watchReducedMotion } from './utils/motion';
+import { createPlaybackClock } from './utils/playbackClock';
+import { HudSnapshot, LiveScene } from './utils/sceneCapture';
+import { createScreenSync } from './utils/screenSync';
+
+// Milestones kept for the moments log, newest first
+const MAX_MOMENTS = 12;
+
+interface AppProps {
+  config: AppConfig;
+  dataset: BirthRateDataset;
+  warnings: ConfigWarning[];
+}
+
+const App: React.FC<AppProps> = ({ config, dataset, warnings }) => {
+  const sync = useMemo(
+    () => (config.sync ? createScreenSync({ room: config.syncRoom ?? 'default', relayUrl: config.syncUrl }) : null),
+    [config.sync, config.syncRoom, config.syncUrl]
+  );
+  const clock = useMemo(() => createPlaybackClock(sync?.base), [sync]);
+  const simulation = useMemo(
+    () => createBirthSimulation({ rates: dataset.rates, dayMode: config.day, clock, diurnal: config.diurnal }),
+    [clock, dataset, config.day, config.diurnal]
+  );
+  const metrics = useMemo(
+    () => config.metrics.map(id => createMetricSimulation(METRIC_BY_ID.get(id)!, { rates: dataset.rates, dayMode: config.day, clock, diurnal: config.diurnal })),
+    [clock, dataset, config.day, config.diurnal, config.metrics]
+  );
+  const i18n = useMemo(() => createI18n(config.locale, config.digits), [config.locale, config.digits]);
+  const [themeName, setThemeName] = useState<ThemeName>(config.theme);
+  const [showStats, setShowStats] = useState(config.debug);
+  const [reducedMotion, setReducedMotion] = useState(() => prefersReducedMotion(config.motion));
+  const [total, setTotal] = useState<number>(0);
+  const [timeState, setTimeState] = useState<DayProgress>({ pct: 0, minuteOfDay: 0, dayMs: 86400000 });
+  const [metricTurn, setMetricTurn] = useState(0);
+  const [moments, setMoments] = useState<Milestone[]>([]);
+  const [celebrations, setCelebrations] = useState(0);
+  const sceneRef = useRef<LiveScene | null>(null);
+  // Problems found after loading, such as the globe worker failing, join the configuration's
+  const [lateWarnings, setLateWarnings] = useState<ConfigWarning[]>([]);
+
+  useEffect(() => setThemeName(config.theme), [config.theme]);
+  useEffect(() => sync?.start(clock), [sync, clock]);
+  useEffect(() => watchReducedMotion(config.motion, setReducedMotion), [config.motion]);
+
+  // In the rotate layout the main counter takes turns: births, then each metric in order
+  useEffect(() => {
+    setMetricTurn(0);
+    if (config.metricLayout !== 'rotate' || !metrics.length) return;
+    const timer = window.setInterval(() => setMetricTurn(turn => turn + 1), config.metricSeconds * 1000);
+    return () => window.clearInterval(timer);
+  }, [config.metricLayout, config.metricSeconds, metrics]);
+
+  // `T` cycles the themes and `D` toggles the frame-rate overlay on a live screen
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === 't') setThemeName(name => THEME_NAMES[(THEME_NAMES.indexOf(name) + 1) % THEME_NAMES.length]);
+      if (e.key === 'd') setShowStats(shown => !shown);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  // Milestones are watched on every metric shown. Each screen celebrates its own; when screens
+  // are synced only the leader POSTs, so a service hears of each milestone once.
+  useEffect(() => {
+    if (!config.milestones.length) return;
+    const watcher = createMilestoneWatcher(config.milestones, config.focus, config.day);
+    const sources = [{ metric: METRIC_BY_ID.get('births')!, simulation }, ...metrics];
+    const unsubscribes = sources.map(({ metric, simulation: source }) => source.subscribe(update => {
+      const passed = watcher.check(metric.id, source, update);
+      if (!passed.length) return;
+      const post = !sync || sync.status().role === 'leader';
+      passed.forEach(milestone => announceMilestone(milestone, window, post ? config.milestoneUrl : null));
+      setMoments(prev => [...[...passed].reverse(), ...prev].slice(0, MAX_MOMENTS));
+      setCelebrations(n => n + 1);
+    }));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [simulation, metrics, sync, config.milestones, config.focus, config.day, config.milestoneUrl]);
+
+  useEffect(() => simulation.subscribe(({ births, progress }) => {
+    setTotal(births);
+    setTimeState(progress);
+  }), [simulation]);
+
+  const rotating = config.metricLayout === 'rotate' ? metrics[metricTurn % (metrics.length + 1) - 1] : undefined;
+  const theme = THEMES[themeName];
+  const { colors, fonts } = theme;
+  const hudColors = useMemo(() => accessibleHudColors(colors), [colors]);
+
+  // The HUD as captures draw it, for any moment of the simulation
+  const hudFor = (update: SimulationUpdate): HudSnapshot | null => config.hud === 'off' ? null : {
+    brand: config.brand ?? i18n.messages.brand,
+    partner: config.partner,
+    title: config.title ?? i18n.messages.title,
+    total: i18n.formatNumber(update.births),
+    progress: config.hud === 'full' ? {
+      label: `${i18n.messages.dailyProgress} · ${i18n.zoneLabel(config.day)}`,
+      percent: i18n.formatPercent(update.progress.pct),
+      pct: update.progress.pct,
+      clock: i18n.formatClock(update.progress.minuteOfDay),
+    } : null,
+    attribution: i18n.format(i18n.messages.dataSource, { source: dataset.source, year: i18n.formatYear(dataset.year) }),
+  };
+
+  const renderFormattedTotal = (val: number) =>
+    i18n.formatNumberParts(val).flatMap((part, p) => part.value.split('').map((char, i) => (
+      <span key={`${p}:${i}`} className={part.type === 'group' ? "px-[1.5px]" : ""}>{char}</span>
+    )));
+
+  return (
+    <div
+      lang={i18n.tag}
+      dir={i18n.dir}
+      data-motion={reducedMotion ? 'reduced' : 'full'}
+      data-accessible={config.accessible || undefined}
+      className="relative w-full h-full overflow-hidden flex flex-col select-none"
+      style={{ backgroundColor: colors.BACKGROUND, fontFamily: fonts.ui, '--hud-ink': hudColors.ink, '--hud-backdrop': hudColors.backdrop }}>
+      <WorldMap simulation={simulation} metrics={metrics} config={config} i18n={i18n} theme={theme} showStats={showStats} reducedMotion={reducedMotion} celebrations={celebrations} sceneRef={sceneRef} onWarning={w => setLateWarnings(prev => [...prev, w])} />
+
+      {config.hud !== 'off' && (
+        <>
+          {/* Brand Logo */}
+          <div className="absolute top-8 start-8 md:top-12 md:start-16 z-40 pointer-events-none">
+            <div className="flex flex-col items-start w-fit">
+              <div className="hud-text font-bold tracking-tight text-[0.6rem] md:text-[1.2rem] leading-[1.1] uppercase" style={{ color: colors.HEADER_PURPLE, fontFamily: fonts.brand }}>
+                {config.brand ?? i18n.messages.brand}
+              </div>
+              <div className="w-full h-[2px] md:h-[4px] mt-1" style={{ backgroundColor: colors.YELLOW_VIBRANT }}></div>
+              {config.partner && (
+                <div className="hud-label font-bold tracking-[0.3em] text-[0.4rem] md:text-[0.6rem] mt-1.5 uppercase opacity-80" style={{ color: colors.TEXT, fontFamily: fonts.brand }}>
+                  {config.partner}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Data HUD */}
+          <div className="absolute inset-y-0 start-0 z-40 flex flex-col justify-center ps-10 md:ps-20 pointer-events-none w-full max-w-[900px]">
+            <div className="flex flex-col items-start w-full translate-y-[-5%]">
+              {rotating ? (
+                <MetricCounter key={rotating.metric.id} metric={rotating} i18n={i18n} theme={theme} size="large" />
+              ) : (
+                <>
+                  <div className="mb-0.5">
+                    <span className="hud-label font-bold uppercase tracking-[0.4em] text-[0.4rem] md:text-[0.6rem] opacity-90" style={{ color: colors.YELLOW_VIBRANT }}>{config.title ?? i18n.messages.title}</span>
+                  </div>
+
+                  <div className="mb-2 relative">
+                    <span aria-hidden="true" className="text-[6vw] md:text-[88px] font-normal leading-none tabular-nums tracking-[0.02em]" 
+                      style={{ fontFamily: fonts.counter, color: colors.YELLOW_VIBRANT, filter: `drop-shadow(0 0 15px ${colors.COUNTER_GLOW})` }}>
+                      {renderFormattedTotal(total)}
+                    </span>
+                  </div>
+                </>
+              )}
+
+              {config.metricLayout === 'side' && metrics.length > 0 && (
+                <div className="flex flex-wrap gap-x-6 md:gap-x-10 gap-y-2 mb-2">
+                  {metrics.map(m => <MetricCounter key={m.metric.id} metric={m} i18n={i18n} theme={theme} size="small" />)}
+                </div>
+              )}
+
+              {config.hud === 'full' && (
+                <DailyProgress
+                  simulation={simulation}
+                  clock={clock}
+                  progress={timeState}
+                  dayMode={config.day}
+                  i18n={i18n}
+                  theme={theme}
+                  timeTravel={config.timeTravel}
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Data attribution */}
+          <div className="hud-label absolute bottom-2 inset-x-0 z-40 text-center pointer-events-none text-[0.4rem] md:text-[0.55rem] tracking-[0.15em] opacity-50" style={{ color: colors.TEXT }}>
+            {i18n.format(i18n.messages.dataSource, { source: dataset.source, year: i18n.formatYear(dataset.year) })}
+          </div>
+        </>
+      )}
+
+      {config.hud === 'full' && config.stats && <BirthStats simulation={simulation} i18n={i18n} theme={theme} />}
+
+      {config.hud === 'full' && config.feed > 0 && (
+        <RecentBirths simulation={simulation} i18n={i18n} theme={theme} maxItems={config.feed} position={config.feedPos} />
+      )}
+
+      {config.hud !== 'off' && <MilestoneOverlay milestone={moments[0] ?? null} i18n={i18n} theme={theme} />}
+
+      {config.hud === 'full' && config.moments > 0 && (
+        <MomentsLog
+          moments={moments}
+          dayMode={config.day}
+          i18n={i18n}
+          theme={theme}
+          maxItems={config.moments}
+          position={config.feed > 0 && config.feedPos === 'bottom-left' ? 'bottom-right' : 'bottom-left'}
+        />
+      )}
+
+      {config.capture && (
+        <CaptureControls simulation={simulation} config={config} dataset={dataset} i18n={i18n} theme={theme} sceneRef={sceneRef} hud={hudFor} />
+      )}
+
+      {sync && showStats && <SyncBadge sync={sync} />}
+
+      <AccessibleSummary simulation={simulation} i18n={i18n} intervalSeconds={config.announce} />
+
+      <ConfigWarnings warnings={[...warnings, ...lateWarnings]} />
+
+      <div className="absolute inset-0 pointer-events-none z-10" style={{ background: `linear-gradient(to ${i18n.dir === 'rtl' ? 'left' : 'right'}, ${withAlpha(colors.OVERLAY, 0.8)}, ${withAlpha(colors.OVERLAY, 0.1)}, ${withAlpha(colors.OVERLAY, 0)})` }} />
+      <div className="absolute top-0 left-0 w-full h-32 z-10 pointer-events-none" style={{ background: `linear-gradient(to bottom, ${withAlpha(colors.OVERLAY, 0.6)}, ${withAlpha(colors.OVERLAY, 0)})` }} />
+      <div className="absolute bottom-0 left-0 w-full h-48 z-10 pointer-events-none" style={{ background: `linear-gradient(to top, ${withAlpha(colors.OVERLAY, 0.6)}, ${withAlpha(colors.OVERLAY, 0)})` }} />
+    </div>
+  );
+};
+
+export default App;
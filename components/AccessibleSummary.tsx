@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { COUNTRY_BY_ISO3 } from '../constants';
+import { BirthEvent, BirthStatsSummary } from '../types';
+import { BirthSimulation } from '../utils/birthSimulation';
+import { computeBirthStats } from '../utils/birthStats';
+import { I18n } from '../utils/i18n';
+
+interface AccessibleSummaryProps {
+  simulation: BirthSimulation;
+  i18n: I18n;
+  /** Seconds between announcements; 0 keeps the summary but never announces it. */
+  intervalSeconds: number;
+  topN?: number;
+  recentN?: number;
+}
+
+interface Summary {
+  births: number;
+  stats: BirthStatsSummary;
+  recent: BirthEvent[];
+}
+
+const RECENT_WINDOW_MS = 60_000;
+
+const summarise = (simulation: BirthSimulation, topN: number, recentN: number): Summary => {
+  const { time, births } = simulation.snapshot();
+  return {
+    births,
+    stats: computeBirthStats(simulation, time, topN, 0),
+    recent: simulation.eventsBetween(time - RECENT_WINDOW_MS, time, recentN).reverse(),
+  };
+};
+
+/**
+ * Screen-reader view of the screen, visually hidden. Its first line is a polite live region that
+ * reads out the total and the current rate every `intervalSeconds` rather than on every tick; the
+ * rest describes the globe, today's leading countries and the latest births, refreshed on the
+ * same schedule so it does not change under the reader's cursor more often than that.
+ */
+const AccessibleSummary: React.FC<AccessibleSummaryProps> = ({ simulation, i18n, intervalSeconds, topN = 5, recentN = 5 }) => {
+  const [summary, setSummary] = useState(() => summarise(simulation, topN, recentN));
+
+  useEffect(() => {
+    setSummary(summarise(simulation, topN, recentN));
+    // With announcements off the summary is still kept current, once a minute
+    const refreshMs = (intervalSeconds || 60) * 1000;
+    const timer = window.setInterval(() => setSummary(summarise(simulation, topN, recentN)), refreshMs);
+    return () => window.clearInterval(timer);
+  }, [simulation, intervalSeconds, topN, recentN]);
+
+  const announcement = i18n.format(i18n.messages.announcement, {
+    count: i18n.formatNumber(summary.births),
+    rate: i18n.formatNumber(summary.stats.lastMinute),
+  });
+
+  return (
+    <section className="sr-only" aria-label={i18n.messages.title}>
+      <p role={intervalSeconds > 0 ? 'status' : undefined} aria-live={intervalSeconds > 0 ? 'polite' : 'off'} aria-atomic="true">
+        {announcement}
+      </p>
+      <p>{i18n.messages.globeDescription}</p>
+      <h2>{i18n.messages.topCountries}</h2>
+      <ol>
+        {summary.stats.leaders.map(leader => {
+          const country = COUNTRY_BY_ISO3.get(leader.iso3);
+          return <li key={leader.iso3}>{country ? i18n.countryName(country) : leader.name}: {i18n.formatNumber(leader.births)}</li>;
+        })}
+      </ol>
+      <h2>{i18n.messages.recentBirths}</h2>
+      <ul>
+        {summary.recent.map(e => {
+          const country = COUNTRY_BY_ISO3.get(e.iso3);
+          if (!country) return null;
+          return <li key={e.id}>{i18n.countryName(country)}, {i18n.formatTime(e.time, country.timeZone)}</li>;
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default AccessibleSummary;
@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { COUNTRY_BY_ISO3 } from '../constants';
+import { BirthStatsSummary, Theme } from '../types';
+import { BirthSimulation } from '../utils/birthSimulation';
+import { computeBirthStats } from '../utils/birthStats';
+import { I18n } from '../utils/i18n';
+
+interface BirthStatsProps {
+  simulation: BirthSimulation;
+  i18n: I18n;
+  theme: Theme;
+  topN?: number;
+  sparklineMinutes?: number;
+}
+
+// A fast replay crosses a simulated second on every tick; the panel needn't redraw that often
+const MIN_REFRESH_MS = 500;
+const SPARK_W = 180;
+const SPARK_H = 36;
+
+const Sparkline: React.FC<{ values: number[]; color: string }> = ({ values, color }) => {
+  if (values.length < 2) return null;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const points = values
+    .map((v, i) => `${(i / (values.length - 1)) * SPARK_W},${SPARK_H - ((v - min) / span) * (SPARK_H - 4) - 2}`)
+    .join(' ');
+  return (
+    <svg width={SPARK_W} height={SPARK_H} viewBox={`0 0 ${SPARK_W} ${SPARK_H}`} className="overflow-visible">
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+const Label: React.FC<{ color: string; children: React.ReactNode }> = ({ color, children }) => (
+  <span className="hud-label font-bold uppercase tracking-[0.4em] text-[0.5rem] opacity-80" style={{ color }}>
+    {children}
+  </span>
+);
+
+/**
+ * Rates, today's top countries, continent subtotals and a births-per-minute sparkline. Refreshed
+ * at most once per simulated second from the same simulation updates that drive the main counter.
+ */
+const BirthStats: React.FC<BirthStatsProps> = ({ simulation, i18n, theme, topN = 5, sparklineMinutes = 60 }) => {
+  const [stats, setStats] = useState<BirthStatsSummary | null>(null);
+  const lastSecondRef = useRef(-1);
+  const lastRefreshRef = useRef(-Infinity);
+
+  useEffect(() => simulation.subscribe(({ time, resync }) => {
+    const second = Math.floor(time / 1000);
+    if (second === lastSecondRef.current) return;
+    if (!resync && performance.now() - lastRefreshRef.current < MIN_REFRESH_MS) return;
+    lastSecondRef.current = second;
+    lastRefreshRef.current = performance.now();
+    setStats(computeBirthStats(simulation, time, topN, sparklineMinutes));
+  }), [simulation, topN, sparklineMinutes]);
+
+  if (!stats) return null;
+
+  return (
+    <div className="absolute top-12 end-16 z-40 pointer-events-none hidden md:flex flex-col gap-4 px-4 py-3 backdrop-blur-md border rounded w-[220px]" style={{ backgroundColor: theme.colors.PANEL, borderColor: theme.colors.PANEL_BORDER }}>
+      <div className="flex justify-between">
+        <div className="flex flex-col">
+          <Label color={theme.colors.YELLOW_VIBRANT}>{i18n.messages.perMinute}</Label>
+          <span className="hud-text font-mono text-[1.1rem] font-black tabular-nums" style={{ color: theme.colors.YELLOW_VIBRANT }}>{i18n.formatNumber(stats.lastMinute)}</span>
+        </div>
+        <div className="flex flex-col items-end">
+          <Label color={theme.colors.YELLOW_VIBRANT}>{i18n.messages.perHour}</Label>
+          <span className="hud-text font-mono text-[1.1rem] font-black tabular-nums" style={{ color: theme.colors.YELLOW_VIBRANT }}>{i18n.formatNumber(stats.lastHour)}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <Label color={theme.colors.YELLOW_VIBRANT}>{i18n.format(i18n.messages.sparkline, { minutes: i18n.formatNumber(sparklineMinutes) })}</Label>
+        <Sparkline values={stats.perMinute} color={theme.colors.YELLOW_VIBRANT} />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <Label color={theme.colors.YELLOW_VIBRANT}>{i18n.messages.topCountries}</Label>
+        {stats.leaders.map((c, i) => (
+          <div key={c.iso3} className="hud-label flex justify-between font-mono text-[0.65rem] tabular-nums opacity-80" style={{ color: theme.colors.TEXT }}>
+            <span className="truncate"><span className="opacity-50">{i18n.formatNumber(i + 1)}.</span> {i18n.countryName(COUNTRY_BY_ISO3.get(c.iso3)!)}</span>
+            <span>{i18n.formatNumber(c.births)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <Label color={theme.colors.YELLOW_VIBRANT}>{i18n.messages.byContinent}</Label>
+        {stats.continents.map(c => (
+          <div key={c.continent} className="hud-label flex justify-between font-mono text-[0.65rem] tabular-nums opacity-60" style={{ color: theme.colors.TEXT }}>
+            <span>{i18n.messages.continents[c.continent]}</span>
+            <span>{i18n.formatNumber(c.births)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BirthStats;
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppConfig, BirthRateDataset, SimulationUpdate, Theme } from '../types';
+import { BirthSimulation } from '../utils/birthSimulation';
+import { I18n } from '../utils/i18n';
+import { renderClip } from '../utils/offlineRender';
+import {
+  canvasToPng,
+  captureFilename,
+  composeScene,
+  downloadBlob,
+  HudSnapshot,
+  LiveScene,
+  recordCanvas,
+  sceneLayout,
+  webmSupported,
+} from '../utils/sceneCapture';
+import { loadWorldGeometry, toGlobeGeometry } from '../utils/worldGeometry';
+
+interface CaptureControlsProps {
+  simulation: BirthSimulation;
+  config: AppConfig;
+  dataset: BirthRateDataset;
+  i18n: I18n;
+  theme: Theme;
+  sceneRef: React.MutableRefObject<LiveScene | null>;
+  hud(update: SimulationUpdate): HudSnapshot | null;
+}
+
+type CaptureState =
+  | { kind: 'idle' }
+  | { kind: 'recording' }
+  | { kind: 'rendering'; done: number };
+
+const nextFrame = () => new Promise(resolve => requestAnimationFrame(resolve));
+
+/**
+ * Snapshot, recording and clip render buttons, hidden until hovered. `S`, `R` and `V` trigger
+ * the same actions. Captures are composed onto a canvas of their own, so these controls and
+ * the warning banner never appear in them.
+ */
+const CaptureControls: React.FC<CaptureControlsProps> = ({ simulation, config, dataset, i18n, theme, sceneRef, hud }) => {
+  const [state, setState] = useState<CaptureState>({ kind: 'idle' });
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // The keyboard handler is bound once and reads the latest actions from here
+  const actionsRef = useRef({ snapshot: () => {}, record: () => {}, render: () => {} });
+  const { colors } = theme;
+  const canRecord = webmSupported();
+
+  // Paints the live screen at the globe's resolution, with the HUD at its on-screen proportions
+  const composeLive = async (canvas: HTMLCanvasElement) => {
+    const scene = sceneRef.current;
+    if (!scene) throw new Error('The globe is not ready yet');
+    const { w, h, scale } = scene.size();
+    const width = Math.round(w * scale);
+    const height = Math.round(h * scale);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    const layers = await scene.layers();
+    const layout = { ...sceneLayout(width, height, i18n.dir), unit: scale, portrait: false };
+    composeScene(canvas.getContext('2d')!, layers, hud(simulation.snapshot()), theme, i18n.dir, layout);
+  };
+
+  const run = async (kind: CaptureState['kind'], task: (signal: AbortSignal) => Promise<void>) => {
+    if (abortRef.current) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setState(kind === 'rendering' ? { kind, done: 0 } : { kind } as CaptureState);
+    try {
+      await task(controller.signal);
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') {
+        console.error('Capture failed', err);
+        setError((err as Error).message);
+      }
+    } finally {
+      abortRef.current = null;
+      setState({ kind: 'idle' });
+    }
+  };
+
+  const snapshot = () => run('idle', async () => {
+    const canvas = document.createElement('canvas');
+    await composeLive(canvas);
+    downloadBlob(await canvasToPng(canvas), captureFilename(simulation.now(), 'png'));
+  });
+
+  const record = () => run('recording', async signal => {
+    const canvas = document.createElement('canvas');
+    await composeLive(canvas);
+    const recording = recordCanvas(canvas);
+    const started = simulation.now();
+    const endAt = performance.now() + config.recordSeconds * 1000;
+    try {
+      while (performance.now() < endAt && !signal.aborted) {
+        await composeLive(canvas);
+        recording.frame();
+        await nextFrame();
+      }
+    } catch (err) {
+      await recording.stop();
+      throw err;
+    }
+    const blob = await recording.stop();
+    if (!signal.aborted) downloadBlob(blob, captureFilename(started, 'webm'));
+  });
+
+  const render = () => run('rendering', async signal => {
+    const geometry = toGlobeGeometry(await loadWorldGeometry(config.geo), dataset.rates);
+    const start = simulation.now();
+    const blob = await renderClip({
+      width: config.renderSize.width,
+      height: config.renderSize.height,
+      fps: config.renderFps,
+      seconds: config.renderSeconds,
+      start,
+      // A paused replay renders at real speed from where it stopped
+      speed: Math.max(1, simulation.timeScale()),
+      rates: dataset.rates,
+      dayMode: config.day,
+      diurnal: config.diurnal,
+      geometry,
+      theme,
+      dir: i18n.dir,
+      stars: config.stars,
+      tilt: config.tilt,
+      rotation: config.rotation,
+      terminator: config.terminator,
+      cityLights: config.cityLights,
+      markerStyle: config.markers,
+      arcs: config.arcs,
+      metrics: config.metrics,
+      hud,
+      onProgress: (frame, total) => setState({ kind: 'rendering', done: frame / total }),
+      signal,
+    });
+    downloadBlob(blob, captureFilename(start, 'webm'));
+  });
+
+  actionsRef.current = { snapshot, record, render };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.target instanceof HTMLInputElement) return;
+      if (e.key === 's') actionsRef.current.snapshot();
+      if (e.key === 'r' && canRecord) actionsRef.current.record();
+      if (e.key === 'v' && canRecord) actionsRef.current.render();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [canRecord]);
+
+  const busy = state.kind !== 'idle';
+  const buttonClass = 'px-2 py-0.5 border rounded font-bold uppercase tracking-[0.2em] text-[0.5rem] md:text-[0.6rem] disabled:opacity-40';
+  const buttonStyle = { backgroundColor: colors.PANEL, borderColor: colors.PANEL_BORDER, color: colors.TEXT };
+  const { width, height } = config.renderSize;
+
+  return (
+    <div className={`absolute top-2 end-2 z-50 flex items-center gap-1.5 transition-opacity duration-300 ${busy || error ? '' : 'opacity-0 hover:opacity-100 focus-within:opacity-100'}`}>
+      {error && <span className="hud-label font-mono text-[0.55rem] text-red-300 max-w-[240px] truncate" title={error}>{error}</span>}
+      {state.kind === 'recording' && (
+        <span className="hud-label flex items-center gap-1.5 font-bold uppercase tracking-[0.2em] text-[0.5rem] md:text-[0.6rem]" style={{ color: colors.TEXT }}>
+          <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
+          {i18n.messages.recording}
+        </span>
+      )}
+      {state.kind === 'rendering' && (
+        <span className="hud-label font-bold uppercase tracking-[0.2em] text-[0.5rem] md:text-[0.6rem] tabular-nums" style={{ color: colors.TEXT }}>
+          {i18n.format(i18n.messages.rendering, { percent: i18n.formatPercent(state.done * 100) })}
+        </span>
+      )}
+      {busy ? (
+        <button type="button" className={buttonClass} style={buttonStyle} onClick={() => abortRef.current?.abort()}>
+          {i18n.messages.cancel}
+        </button>
+      ) : (
+        <>
+          <button type="button" className={buttonClass} style={buttonStyle} onClick={snapshot}>
+            {i18n.messages.snapshot}
+          </button>
+          <button type="button" className={buttonClass} style={buttonStyle} onClick={record} disabled={!canRecord}>
+            {i18n.format(i18n.messages.record, { seconds: i18n.formatNumber(config.recordSeconds) })}
+          </button>
+          <button type="button" className={buttonClass} style={buttonStyle} onClick={render} disabled={!canRecord}>
+            {i18n.format(i18n.messages.renderClip, { size: `${width}×${height}` })}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CaptureControls;
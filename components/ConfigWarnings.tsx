@@ -0,0 +1,31 @@
+import React, { useState } from 'react';
+import { ConfigWarning } from '../types';
+
+interface ConfigWarningsProps {
+  warnings: ConfigWarning[];
+}
+
+/**
+ * Lists settings that were rejected or adjusted while loading the configuration, so a
+ * mistyped kiosk URL is visible on screen instead of silently falling back to defaults.
+ */
+const ConfigWarnings: React.FC<ConfigWarningsProps> = ({ warnings }) => {
+  const [dismissed, setDismissed] = useState(false);
+  if (!warnings.length || dismissed) return null;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 max-w-[90%] px-4 py-3 bg-red-950/80 backdrop-blur-md border border-red-500/40 rounded shadow-2xl font-mono text-[0.6rem] md:text-[0.75rem] text-red-200">
+      <div className="flex justify-between items-center gap-6 mb-1">
+        <strong className="uppercase tracking-[0.3em]">Configuration warnings</strong>
+        <button className="opacity-70 hover:opacity-100" onClick={() => setDismissed(true)} aria-label="Dismiss configuration warnings">✕</button>
+      </div>
+      <ul>
+        {warnings.map((w, i) => (
+          <li key={i}><span className="opacity-60">[{w.source}]</span> {w.key}: {w.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ConfigWarnings;
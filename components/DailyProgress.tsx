@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DayBoundaryMode, DayProgress, Theme } from '../types';
+import { BirthSimulation } from '../utils/birthSimulation';
+import { resolveTimeZone, zoneDateKey, zoneDateStart } from '../utils/dayClock';
+import { I18n } from '../utils/i18n';
+import { PlaybackClock, REPLAY_SPEEDS } from '../utils/playbackClock';
+
+interface DailyProgressProps {
+  simulation: BirthSimulation;
+  clock: PlaybackClock;
+  progress: DayProgress;
+  dayMode: DayBoundaryMode;
+  i18n: I18n;
+  theme: Theme;
+  /** Lets the marker be dragged and shows the replay controls. */
+  timeTravel: boolean;
+}
+
+// Keeps a drag to the far end of the bar on the current day rather than the next midnight
+const MAX_SEEK_FRACTION = 0.99999;
+
+/**
+ * The Daily Progress bar and its clock marker. With time travel on, dragging the marker or the
+ * bar seeks the simulation clock within the displayed day, and a row of controls replays at
+ * speed, picks a past date or snaps back to live.
+ */
+const DailyProgress: React.FC<DailyProgressProps> = ({ simulation, clock, progress, dayMode, i18n, theme, timeTravel }) => {
+  const [playback, setPlayback] = useState(clock.state());
+  const [dragging, setDragging] = useState(false);
+  const barRef = useRef<HTMLDivElement>(null);
+  const { colors } = theme;
+  const timeZone = resolveTimeZone(dayMode);
+
+  useEffect(() => {
+    setPlayback(clock.state());
+    return clock.subscribe(() => setPlayback(clock.state()));
+  }, [clock]);
+
+  // Maps a pointer position on the bar to an instant of the displayed day. Per-country progress
+  // is a weighted average, so the estimate is refined on every move of a drag.
+  const seekToPointer = (clientX: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    let fraction = Math.max(0, Math.min(MAX_SEEK_FRACTION, (clientX - rect.left) / rect.width));
+    if (i18n.dir === 'rtl') fraction = MAX_SEEK_FRACTION - fraction;
+    const { time, progress: now } = simulation.snapshot();
+    clock.seek(time + ((fraction * 100 - now.pct) / 100) * now.dayMs);
+  };
+
+  const scrubHandlers = timeTravel ? {
+    onPointerDown: (e: React.PointerEvent) => {
+      (e.currentTarget as Element).setPointerCapture(e.pointerId);
+      setDragging(true);
+      seekToPointer(e.clientX);
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (dragging) seekToPointer(e.clientX);
+    },
+    onPointerUp: () => setDragging(false),
+    onPointerCancel: () => setDragging(false),
+  } : {};
+
+  const seekToDate = (dateKey: string) => {
+    if (!dateKey) return;
+    const { progress: now } = simulation.snapshot();
+    clock.seek(zoneDateStart(timeZone, dateKey) + (now.pct / 100) * now.dayMs);
+  };
+
+  // From live, a faster speed has nothing ahead of it to play, so it replays today from midnight
+  const replayAt = (speed: number) => {
+    if (playback.live && speed > 1) {
+      const { time, progress: now } = simulation.snapshot();
+      clock.seek(time - (now.pct / 100) * now.dayMs);
+    }
+    clock.setSpeed(speed);
+  };
+
+  // The one-second easing suits live ticks; a replay or a drag must track the clock exactly
+  const easing = playback.live && !dragging ? 'transition-all duration-1000 ease-linear' : '';
+  const simulatedNow = simulation.now();
+
+  const buttonStyle = (active: boolean) => ({
+    backgroundColor: active ? colors.YELLOW_VIBRANT : colors.PANEL,
+    borderColor: colors.PANEL_BORDER,
+    color: active ? colors.BACKGROUND : colors.TEXT,
+  });
+
+  return (
+    <div className="w-[35%] md:w-[32%] relative mt-4">
+      <div className="flex justify-between items-end mb-2 relative h-4">
+        <span className="hud-label font-bold uppercase tracking-[0.4em] text-[0.4rem] md:text-[0.5rem]" style={{ color: colors.YELLOW_VIBRANT }}>
+          {i18n.messages.dailyProgress} <span className="opacity-60">· {i18n.zoneLabel(dayMode)}</span>
+        </span>
+        <span className="hud-label font-mono text-[9px] md:text-[12px] tabular-nums font-bold tracking-widest" style={{ color: colors.YELLOW_VIBRANT }}>{i18n.formatPercent(progress.pct)}</span>
+      </div>
+
+      <div ref={barRef} className={`py-2 -my-2 ${timeTravel ? 'pointer-events-auto cursor-ew-resize touch-none' : ''}`} {...scrubHandlers}>
+        <div className="h-[4px] w-full rounded-full overflow-hidden relative backdrop-blur-md" style={{ backgroundColor: colors.PROGRESS_TRACK }}>
+          <div
+            className={`h-full rounded-full ${easing}`}
+            style={{ width: `${progress.pct}%`, backgroundColor: colors.GOLD, boxShadow: `0 0 15px ${colors.PROGRESS_GLOW}` }}
+          />
+        </div>
+      </div>
+
+      <div
+        className={`absolute top-6 ${easing} ${timeTravel ? 'pointer-events-auto cursor-ew-resize touch-none' : ''}`}
+        style={{ insetInlineStart: `${progress.pct}%`, transform: `translateX(${i18n.dir === 'rtl' ? 50 : -50}%)` }}
+        {...scrubHandlers}
+      >
+        <div className="flex flex-col items-center">
+          <div className="w-[1px] h-3 mb-1" style={{ backgroundColor: colors.YELLOW_VIBRANT }}></div>
+          <div className="px-2.5 py-1 backdrop-blur-xl border rounded shadow-2xl" style={{ backgroundColor: colors.PANEL, borderColor: colors.PANEL_BORDER }}>
+            <span className="font-mono text-[0.7rem] md:text-[1rem] font-black tracking-[0.1em] tabular-nums" style={{ color: colors.YELLOW_VIBRANT }}>
+              {i18n.formatClock(progress.minuteOfDay)}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {timeTravel && (
+        <div
+          className={`flex flex-wrap items-center gap-1.5 mt-16 pointer-events-auto transition-opacity duration-300 ${playback.live ? 'opacity-0 hover:opacity-100 focus-within:opacity-100' : ''}`}
+        >
+          <button
+            type="button"
+            onClick={() => clock.goLive()}
+            className="flex items-center gap-1.5 px-2 py-0.5 border rounded font-bold uppercase tracking-[0.2em] text-[0.5rem] md:text-[0.6rem]"
+            style={buttonStyle(false)}
+          >
+            <span className={`w-1.5 h-1.5 rounded-full ${playback.live ? 'bg-red-500 animate-pulse' : 'bg-gray-500'}`} />
+            {i18n.messages.live}
+          </button>
+          <button
+            type="button"
+            onClick={() => (playback.playing ? clock.pause() : clock.play())}
+            aria-label={playback.playing ? i18n.messages.pause : i18n.messages.play}
+            className="w-6 px-1 py-0.5 border rounded text-[0.5rem] md:text-[0.6rem]"
+            style={buttonStyle(false)}
+          >
+            {playback.playing ? '❚❚' : '▶'}
+          </button>
+          {REPLAY_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              type="button"
+              onClick={() => replayAt(speed)}
+              className="px-1.5 py-0.5 border rounded font-mono tabular-nums text-[0.5rem] md:text-[0.6rem]"
+              style={buttonStyle(!playback.live && playback.speed === speed)}
+            >
+              {i18n.formatSpeed(speed)}
+            </button>
+          ))}
+          <input
+            type="date"
+            aria-label={i18n.messages.replayDate}
+            value={zoneDateKey(timeZone, simulatedNow)}
+            max={zoneDateKey(timeZone, Date.now())}
+            onChange={e => seekToDate(e.target.value)}
+            className="px-1 py-0.5 border rounded font-mono text-[0.5rem] md:text-[0.6rem]"
+            style={{ ...buttonStyle(false), colorScheme: theme.name === 'daylight' ? 'light' : 'dark' }}
+          />
+          {!playback.live && (
+            <span className="hud-label font-bold uppercase tracking-[0.2em] text-[0.5rem] md:text-[0.6rem] opacity-80" style={{ color: colors.YELLOW_VIBRANT }}>
+              {i18n.messages.replay} · {i18n.formatDate(simulatedNow, timeZone)}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DailyProgress;
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { AppConfig, BirthRateDataset, ConfigWarning, Theme } from '../types';
+import { BirthSimulation } from '../utils/birthSimulation';
+import { I18n } from '../utils/i18n';
+import { prefersReducedMotion, watchReducedMotion } from '../utils/motion';
+import AccessibleSummary from './AccessibleSummary';
+import WorldMap from './WorldMap';
+
+export type EmbedMode = 'counter' | 'globe' | 'full';
+
+export const EMBED_MODES: readonly EmbedMode[] = ['counter', 'globe', 'full'];
+
+interface EmbedViewProps {
+  mode: EmbedMode;
+  simulation: BirthSimulation;
+  config: AppConfig;
+  dataset: BirthRateDataset;
+  i18n: I18n;
+  theme: Theme;
+  onWarning?(warning: ConfigWarning): void;
+}
+
+/**
+ * What a `<birth-counter>` element shows inside its shadow root: the globe, the running total or
+ * both. Text is sized in container units so the layout scales with the host element rather than
+ * with the partner page's viewport.
+ */
+const EmbedView: React.FC<EmbedViewProps> = ({ mode, simulation, config, dataset, i18n, theme, onWarning }) => {
+  const [total, setTotal] = useState(() => simulation.snapshot().births);
+  const [reducedMotion, setReducedMotion] = useState(() => prefersReducedMotion(config.motion));
+  const { colors, fonts } = theme;
+
+  useEffect(() => {
+    setTotal(simulation.snapshot().births);
+    return simulation.subscribe(({ births }) => setTotal(births));
+  }, [simulation]);
+
+  useEffect(() => watchReducedMotion(config.motion, setReducedMotion), [config.motion]);
+
+  const counterOnly = mode === 'counter';
+
+  return (
+    <div
+      lang={i18n.tag}
+      dir={i18n.dir}
+      data-motion={reducedMotion ? 'reduced' : 'full'}
+      className="relative w-full h-full overflow-hidden select-none"
+      style={{ backgroundColor: colors.BACKGROUND, fontFamily: fonts.ui, containerType: 'size' }}
+    >
+      {mode !== 'counter' && <WorldMap simulation={simulation} config={config} i18n={i18n} theme={theme} showStats={false} reducedMotion={reducedMotion} onWarning={onWarning} />}
+
+      {mode !== 'globe' && (
+        <div
+          className={`absolute z-40 pointer-events-none flex flex-col ${counterOnly ? 'inset-0 items-center justify-center text-center' : 'top-[4cqh] start-[4cqw] items-start'}`}
+        >
+          <span className="font-bold uppercase tracking-[0.3em] opacity-90" style={{ color: colors.YELLOW_VIBRANT, fontSize: counterOnly ? '3.2cqw' : '1.8cqw' }}>
+            {config.title ?? i18n.messages.title}
+          </span>
+          <span
+            aria-hidden="true"
+            className="font-normal leading-none tabular-nums tracking-[0.02em] mt-[0.5cqh]"
+            style={{
+              fontFamily: fonts.counter,
+              color: colors.YELLOW_VIBRANT,
+              fontSize: counterOnly ? '13cqw' : '7cqw',
+              filter: `drop-shadow(0 0 12px ${colors.COUNTER_GLOW})`,
+            }}
+          >
+            {i18n.formatNumber(total)}
+          </span>
+        </div>
+      )}
+
+      <div
+        className="absolute bottom-[2cqh] inset-x-0 z-40 text-center pointer-events-none tracking-[0.15em] opacity-50"
+        style={{ color: colors.TEXT, fontSize: counterOnly ? '2cqw' : '1.3cqw' }}
+      >
+        {i18n.format(i18n.messages.dataSource, { source: dataset.source, year: i18n.formatYear(dataset.year) })}
+      </div>
+
+      <AccessibleSummary simulation={simulation} i18n={i18n} intervalSeconds={config.announce} />
+    </div>
+  );
+};
+
+export default EmbedView;
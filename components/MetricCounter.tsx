@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { Theme } from '../types';
+import { withAlpha } from '../utils/color';
+import { I18n } from '../utils/i18n';
+import { MetricSimulation } from '../utils/metrics';
+
+interface MetricCounterProps {
+  metric: MetricSimulation;
+  i18n: I18n;
+  theme: Theme;
+  /** `large` stands in for the births counter; `small` sits in a row beneath it. */
+  size: 'large' | 'small';
+}
+
+/** Today's running count of one metric, under its icon and name, in the metric's colour. */
+const MetricCounter: React.FC<MetricCounterProps> = ({ metric: { metric, simulation }, i18n, theme, size }) => {
+  const [total, setTotal] = useState(() => simulation.snapshot().births);
+  const { colors, fonts } = theme;
+  const color = metric.color ?? colors.YELLOW_VIBRANT;
+  const large = size === 'large';
+
+  useEffect(() => {
+    setTotal(simulation.snapshot().births);
+    return simulation.subscribe(({ births }) => setTotal(births));
+  }, [simulation]);
+
+  return (
+    <div className="flex flex-col items-start">
+      <div className={`flex items-center gap-1.5 ${large ? 'mb-0.5' : ''}`}>
+        <svg viewBox="0 0 24 24" aria-hidden="true" className={large ? 'w-2.5 h-2.5 md:w-3.5 md:h-3.5' : 'w-2 h-2 md:w-3 md:h-3'} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" strokeLinecap="round">
+          <path d={metric.icon} />
+        </svg>
+        <span className={`hud-label font-bold uppercase opacity-90 ${large ? 'tracking-[0.4em] text-[0.4rem] md:text-[0.6rem]' : 'tracking-[0.25em] text-[0.35rem] md:text-[0.5rem]'}`} style={{ color }}>
+          {i18n.messages.metrics[metric.id]}
+        </span>
+      </div>
+      <span
+        className={`font-normal leading-none tabular-nums tracking-[0.02em] ${large ? 'text-[6vw] md:text-[88px] mb-2' : 'text-[2.4vw] md:text-[34px]'}`}
+        style={{ fontFamily: fonts.counter, color, filter: `drop-shadow(0 0 ${large ? 15 : 8}px ${withAlpha(color, 0.4)})` }}
+      >
+        {i18n.formatNumber(total)}
+      </span>
+    </div>
+  );
+};
+
+export default MetricCounter;
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { Milestone, Theme } from '../types';
+import { withAlpha } from '../utils/color';
+import { I18n } from '../utils/i18n';
+import { METRIC_BY_ID } from '../utils/metrics';
+import { milestonePlace } from '../utils/milestones';
+
+interface MilestoneOverlayProps {
+  /** The latest milestone; each new one replaces the last on screen. */
+  milestone: Milestone | null;
+  i18n: I18n;
+  theme: Theme;
+}
+
+// How long a milestone holds the screen before it fades
+const SHOW_MS = 6000;
+
+/**
+ * The round number just passed, shown large over the top of the screen while the globe bursts
+ * into comets and pacifiers. It doubles as a polite live region, so screen readers hear it too.
+ */
+const MilestoneOverlay: React.FC<MilestoneOverlayProps> = ({ milestone, i18n, theme }) => {
+  const [shown, setShown] = useState(false);
+  const { colors, fonts } = theme;
+
+  useEffect(() => {
+    if (!milestone) return;
+    setShown(true);
+    const timer = window.setTimeout(() => setShown(false), SHOW_MS);
+    return () => window.clearTimeout(timer);
+  }, [milestone]);
+
+  const metric = milestone && METRIC_BY_ID.get(milestone.metric)!;
+  const color = metric?.color ?? colors.YELLOW_VIBRANT;
+
+  return (
+    <div role="status" aria-live="polite" aria-atomic="true" className="absolute inset-x-0 top-[12%] z-40 flex justify-center pointer-events-none">
+      {milestone && metric && (
+        <div
+          key={milestone.id}
+          className="flex flex-col items-center px-8 py-4 md:px-12 md:py-6 backdrop-blur-md border rounded transition-opacity duration-1000"
+          style={{
+            opacity: shown ? 1 : 0,
+            animation: 'milestone-in 0.6s ease-out',
+            backgroundColor: colors.PANEL,
+            borderColor: withAlpha(color, 0.5),
+            color: colors.TEXT,
+          }}
+        >
+          <span className="hud-label font-bold uppercase tracking-[0.4em] text-[0.45rem] md:text-[0.65rem] opacity-80" style={{ color }}>
+            {i18n.messages.milestone}
+          </span>
+          <span
+            className="text-[7vw] md:text-[96px] font-normal leading-none tabular-nums tracking-[0.02em] my-1"
+            style={{ fontFamily: fonts.counter, color, filter: `drop-shadow(0 0 18px ${withAlpha(color, 0.5)})` }}
+          >
+            {i18n.formatNumber(milestone.count)}
+          </span>
+          <span className="hud-label font-bold uppercase tracking-[0.25em] text-[0.45rem] md:text-[0.65rem] opacity-90">
+            {i18n.messages.metrics[milestone.metric]} · {milestonePlace(milestone, i18n)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MilestoneOverlay;
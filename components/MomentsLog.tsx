@@ -0,0 +1,59 @@
+import React from 'react';
+import { COUNTRY_BY_ISO3 } from '../constants';
+import { DayBoundaryMode, FeedPosition, Milestone, Theme } from '../types';
+import { resolveTimeZone } from '../utils/dayClock';
+import { I18n } from '../utils/i18n';
+import { METRIC_BY_ID } from '../utils/metrics';
+import { milestonePlace } from '../utils/milestones';
+import { FEED_POSITION_CLASSES } from './feedPosition';
+
+interface MomentsLogProps {
+  /** Newest first. */
+  moments: Milestone[];
+  dayMode: DayBoundaryMode;
+  i18n: I18n;
+  theme: Theme;
+  maxItems: number;
+  position: FeedPosition;
+}
+
+/** The milestones passed since the screen loaded, each with the local time it was reached. */
+const MomentsLog: React.FC<MomentsLogProps> = ({ moments, dayMode, i18n, theme, maxItems, position }) => {
+  const { colors } = theme;
+  if (!moments.length) return null;
+
+  return (
+    <div className={`absolute z-40 pointer-events-none flex flex-col gap-1 md:gap-1.5 ${FEED_POSITION_CLASSES[position]}`}>
+      <span className="hud-label font-bold uppercase tracking-[0.4em] text-[0.4rem] md:text-[0.5rem] mb-0.5 opacity-80" style={{ color: colors.YELLOW_VIBRANT }}>
+        {i18n.messages.moments}
+      </span>
+      {moments.slice(0, maxItems).map(m => {
+        const metric = METRIC_BY_ID.get(m.metric)!;
+        const color = metric.color ?? colors.YELLOW_VIBRANT;
+        const timeZone = (m.iso3 && COUNTRY_BY_ISO3.get(m.iso3)?.timeZone) || resolveTimeZone(dayMode);
+        return (
+          <div
+            key={m.id}
+            className="hud-text flex items-center gap-2 md:gap-3 px-2.5 py-1 backdrop-blur-md border rounded"
+            style={{ animation: 'feed-in 0.5s ease-out', backgroundColor: colors.PANEL, borderColor: colors.PANEL_BORDER, color: colors.TEXT }}
+          >
+            <svg viewBox="0 0 24 24" aria-hidden="true" className="w-2.5 h-2.5 md:w-3.5 md:h-3.5 shrink-0" fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" strokeLinecap="round">
+              <path d={metric.icon} />
+            </svg>
+            <span className="hud-label font-mono text-[0.6rem] md:text-[0.8rem] font-bold tabular-nums" style={{ color }}>
+              {i18n.formatNumber(m.count)}
+            </span>
+            <span className="hud-label text-[0.6rem] md:text-[0.8rem] font-bold opacity-90 truncate max-w-[9rem] md:max-w-[14rem]">
+              {i18n.messages.metrics[m.metric]} · {milestonePlace(m, i18n)}
+            </span>
+            <span className="hud-label font-mono text-[0.55rem] md:text-[0.7rem] tabular-nums opacity-60">
+              {i18n.formatTime(m.time, timeZone)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MomentsLog;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { RenderStats } from '../types';
+import { QUALITY_LEVELS } from '../utils/qualityGovernor';
+
+interface PerfOverlayProps {
+  stats: RenderStats | null;
+}
+
+const Row: React.FC<{ label: string; value: string; warn?: boolean }> = ({ label, value, warn }) => (
+  <div className="flex justify-between gap-4">
+    <span className="opacity-60">{label}</span>
+    <span className={warn ? 'text-red-400' : ''}>{value}</span>
+  </div>
+);
+
+/** Frame-rate and renderer diagnostics for tuning a screen on site. */
+const PerfOverlay: React.FC<PerfOverlayProps> = ({ stats }) => {
+  if (!stats) return null;
+  return (
+    <div dir="ltr" className="absolute bottom-2 right-2 z-50 pointer-events-none px-3 py-2 bg-black/80 border border-white/20 rounded font-mono text-[0.65rem] tabular-nums text-green-300 w-[170px]">
+      <Row label="fps" value={stats.fps.toFixed(0)} warn={stats.fps < 55} />
+      <Row label="frame" value={`${stats.frameMs.toFixed(1)} ms`} />
+      <Row label="main" value={`${stats.costMs.toFixed(1)} ms`} />
+      <Row label="globe" value={`${stats.drawMs.toFixed(1)} ms`} />
+      <Row label="quality" value={`${stats.level + 1} / ${QUALITY_LEVELS.length}`} warn={stats.level > 0} />
+      <Row label="scale" value={`${stats.scale.toFixed(2)}x`} />
+      <Row label="renderer" value={stats.offscreen ? 'worker' : 'main'} />
+    </div>
+  );
+};
+
+export default PerfOverlay;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { COUNTRY_BY_ISO3 } from '../constants';
+import { BirthEvent, FeedPosition, Theme } from '../types';
+import { BirthSimulation } from '../utils/birthSimulation';
+import { I18n } from '../utils/i18n';
+import { FEED_POSITION_CLASSES } from './feedPosition';
+
+interface RecentBirthsProps {
+  simulation: BirthSimulation;
+  i18n: I18n;
+  theme: Theme;
+  maxItems?: number;
+  maxAgeMs?: number;
+  position?: FeedPosition;
+}
+
+const flagEmoji = (iso2: string) =>
+  String.fromCodePoint(...iso2.toUpperCase().split('').map(ch => 0x1f1e6 + ch.charCodeAt(0) - 65));
+
+/**
+ * Live ticker of the latest simulated births. Subscribes to the same simulation updates that
+ * drive the globe flashes, so every entry here has a matching flash on the map.
+ */
+const RecentBirths: React.FC<RecentBirthsProps> = ({
+  simulation,
+  i18n,
+  theme,
+  maxItems = 5,
+  maxAgeMs = 30000,
+  position = 'bottom-left',
+}) => {
+  const [feed, setFeed] = useState<{ now: number; entries: BirthEvent[] }>({ now: 0, entries: [] });
+
+  useEffect(() => simulation.subscribe(({ time, events, resync }) => {
+    setFeed(prev => ({
+      now: time,
+      entries: [...events.slice(-maxItems).reverse(), ...(resync ? [] : prev.entries)]
+        .filter(e => time - e.time < maxAgeMs)
+        .slice(0, maxItems),
+    }));
+  }), [simulation, maxItems, maxAgeMs]);
+
+  return (
+    <div className={`absolute z-40 pointer-events-none flex flex-col gap-1 md:gap-1.5 ${FEED_POSITION_CLASSES[position]}`}>
+      <span className="hud-label font-bold uppercase tracking-[0.4em] text-[0.4rem] md:text-[0.5rem] mb-0.5 opacity-80" style={{ color: theme.colors.YELLOW_VIBRANT }}>
+        {i18n.messages.recentBirths}
+      </span>
+      {feed.entries.map(e => {
+        const country = COUNTRY_BY_ISO3.get(e.iso3);
+        if (!country) return null;
+        const age = feed.now - e.time;
+        return (
+          <div
+            key={e.id}
+            className="hud-text flex items-center gap-2 md:gap-3 px-2.5 py-1 backdrop-blur-md border rounded transition-opacity duration-1000"
+            style={{
+              opacity: Math.max(0.15, 1 - age / maxAgeMs),
+              animation: 'feed-in 0.5s ease-out',
+              backgroundColor: theme.colors.PANEL,
+              borderColor: theme.colors.PANEL_BORDER,
+              color: theme.colors.TEXT,
+            }}
+          >
+            <span className="text-[0.7rem] md:text-[1rem] leading-none">{flagEmoji(country.iso2)}</span>
+            <span className="hud-label font-mono text-[0.55rem] md:text-[0.7rem] font-bold tracking-widest opacity-60" style={{ color: theme.colors.YELLOW_VIBRANT }}>
+              {country.iso3}
+            </span>
+            <span className="hud-label text-[0.6rem] md:text-[0.8rem] font-bold opacity-90 truncate max-w-[9rem] md:max-w-[14rem]">
+              {i18n.countryName(country)}
+            </span>
+            <span className="hud-label font-mono text-[0.55rem] md:text-[0.7rem] tabular-nums opacity-60">
+              {i18n.formatTime(e.time, country.timeZone)}
+            </span>
+            <span className="hud-label font-mono text-[0.5rem] md:text-[0.6rem] tabular-nums opacity-40 w-[3.5rem] text-end">
+              {i18n.formatAge(age)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RecentBirths;
@@ -0,0 +1,25 @@
+import React, { useEffect, useState } from 'react';
+import { ScreenSync } from '../utils/screenSync';
+
+interface SyncBadgeProps {
+  sync: ScreenSync;
+}
+
+/** Sync diagnostics shown with the frame-rate overlay: this screen's role and the room's size. */
+const SyncBadge: React.FC<SyncBadgeProps> = ({ sync }) => {
+  const [status, setStatus] = useState(sync.status());
+
+  useEffect(() => {
+    setStatus(sync.status());
+    return sync.subscribe(() => setStatus(sync.status()));
+  }, [sync]);
+
+  return (
+    <div dir="ltr" className="absolute bottom-2 left-2 z-50 pointer-events-none px-3 py-2 bg-black/80 border border-white/20 rounded font-mono text-[0.65rem] tabular-nums text-green-300">
+      <span className={status.connected ? '' : 'text-red-400'}>sync {status.connected ? status.role : 'offline'}</span>
+      <span className="opacity-60"> · {status.screens} screens · {status.offset >= 0 ? '+' : ''}{status.offset} ms</span>
+    </div>
+  );
+};
+
+export default SyncBadge;
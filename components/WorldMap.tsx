@@ -0,0 +1,697 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { COUNTRY_BY_ISO3 } from '../constants';
+import { AppConfig, ConfigWarning, GeoStatus, RenderStats, Theme, WallTile } from '../types';
+import { createMarkerTrail, MarkerTrail } from '../utils/birthMarkers';
+import { BirthSimulation } from '../utils/birthSimulation';
+import { withAlpha } from '../utils/color';
+import { FLASH_DURATION_MS } from '../utils/globeRenderer';
+import { createGlobeSurface, GlobeSurface } from '../utils/globeSurface';
+import { I18n } from '../utils/i18n';
+import { MetricSimulation } from '../utils/metrics';
+import { REDUCED_ROTATION } from '../utils/motion';
+import { createQualityGovernor } from '../utils/qualityGovernor';
+import { LiveScene } from '../utils/sceneCapture';
+import { antisolarPoint } from '../utils/solar';
+import { loadWorldGeometry, toGlobeGeometry } from '../utils/worldGeometry';
+import PerfOverlay from './PerfOverlay';
+
+// --- Interaction ---
+const IDLE_RESUME_MS = 8000;
+const AUTO_RESUME_EASE_S = 2.5;
+const INERTIA_DECAY = 3; // Velocity falloff per second after release
+const MIN_ZOOM = 0.7;
+const MAX_ZOOM = 3.5;
+const TAP_SLOP_PX = 6;
+
+const DAY_MS = 86400000;
+// Marker progress held for a birth's whole span when motion is reduced: lit, without the fade
+const STATIC_FLASH = 0.25;
+// How often the debug overlay refreshes while it is shown
+const STATS_INTERVAL_MS = 500;
+const NO_METRICS: MetricSimulation[] = [];
+// A milestone sends this many comets and pacifiers flying out from the globe
+const BURST_COMETS = 16;
+const BURST_PACIFIERS = 10;
+
+interface Pacifier {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  rot: number;
+  rv: number;
+  size: number;
+  alpha: number;
+}
+
+interface Comet {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  length: number;
+  alpha: number;
+  thickness: number;
+  decay: number;
+}
+
+interface ViewState {
+  lambda: number;
+  phi: number;
+  zoom: number;
+  velLambda: number;
+  velPhi: number;
+  autoBlend: number;
+  lastInteraction: number;
+}
+
+interface WorldMapProps {
+  simulation: BirthSimulation;
+  /** Other metrics whose events are marked alongside the births, each in its own style. */
+  metrics?: MetricSimulation[];
+  config: AppConfig;
+  i18n: I18n;
+  theme: Theme;
+  showStats: boolean;
+  /** Drops comets and pacifiers, slows the rotation and holds flashes steady. */
+  reducedMotion: boolean;
+  /** Milestones celebrated so far; each increase bursts comets and pacifiers from the globe. */
+  celebrations?: number;
+  /** Receives the globe and effects layers for snapshots and recordings. */
+  sceneRef?: React.MutableRefObject<LiveScene | null>;
+  /** Told when drawing falls back from the worker to the main thread. */
+  onWarning?(warning: ConfigWarning): void;
+}
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+// On wide screens the globe sits opposite the HUD, which mirrors in right-to-left locales.
+// Without a HUD it is centred. A wall tile lays the globe out across the whole wall and shows
+// its own part of it. `size` is the dimension the globe's radius is measured against.
+const globeLayout = (w: number, h: number, dir: I18n['dir'], hud: boolean, wall: WallTile | null) => {
+  if (!wall) return { cx: hud && w > 768 ? w * (dir === 'rtl' ? 0.35 : 0.65) : w / 2, cy: h / 2, size: Math.min(w, h) };
+  const wallW = w * wall.cols;
+  const wallH = h * wall.rows;
+  return { cx: wallW / 2 - wall.col * w, cy: wallH / 2 - wall.row * h, size: Math.min(wallW, wallH) };
+};
+
+/**
+ * The rotating globe and its screen-space effects layer. Auto-rotates until someone drags,
+ * pinches or scrolls it, then eases back into rotation after `IDLE_RESUME_MS` of inactivity.
+ */
+const WorldMap: React.FC<WorldMapProps> = ({ simulation, metrics = NO_METRICS, config, i18n, theme, showStats, reducedMotion, celebrations = 0, sceneRef, onWarning }) => {
+  const [geoStatus, setGeoStatus] = useState<GeoStatus>('loading');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [selectedBirths, setSelectedBirths] = useState(0);
+  const [renderStats, setRenderStats] = useState<RenderStats | null>(null);
+
+  const globeCanvasRef = useRef<HTMLCanvasElement>(null);
+  const fxCanvasRef = useRef<HTMLCanvasElement>(null);
+  const pacifierSpriteRef = useRef<HTMLCanvasElement | null>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  const geoDataRef = useRef<any>(null);
+  const featuresMapRef = useRef<Map<string, any>>(new Map());
+  const featureCodesRef = useRef<Map<any, string>>(new Map());
+  const markersRef = useRef<MarkerTrail>(createMarkerTrail());
+  const pacifiers = useRef<Pacifier[]>([]);
+  const comets = useRef<Comet[]>([]);
+  const burstRef = useRef(false);
+  const dimensionsRef = useRef({ w: 0, h: 0, cssScale: 1 });
+  const lastTimeRef = useRef<number>(0);
+  const selectedRef = useRef<string | null>(null);
+  // Where the idle globe settles: the configured tilt, or the focused country's latitude
+  const homePhiRef = useRef(config.tilt);
+  // Longitude offset of a synced screen's shared rotation, so a focus country starts in view
+  const homeLambdaRef = useRef(0);
+  const viewRef = useRef<ViewState>({
+    lambda: 0, phi: config.tilt, zoom: 1, velLambda: 0, velPhi: 0, autoBlend: 1, lastInteraction: -Infinity,
+  });
+  const pointersRef = useRef<Map<number, [number, number]>>(new Map());
+  const gestureRef = useRef({ moved: 0, pinchDist: 0, lastMoveTime: 0 });
+
+  // Read by the render loop so a theme switch or overlay toggle does not restart it
+  const themeRef = useRef(theme);
+  const showStatsRef = useRef(showStats);
+  // Drawing happens in the globe surface; this projection only serves hit-testing and the popover
+  const projectionRef = useRef<d3.GeoProjection>(d3.geoOrthographic().clipAngle(90));
+  const surfaceRef = useRef<GlobeSurface | null>(null);
+  // The configured scale, lowered by the quality governor when frames run long
+  const renderScaleRef = useRef(config.scale);
+
+  // Created once: after the canvas is handed to a worker it cannot be handed over again
+  useEffect(() => {
+    const surface = createGlobeSurface(globeCanvasRef.current!, config.offscreen, reason =>
+      onWarning?.({ source: 'globe', key: 'offscreen', message: `${reason}; drawing on the main thread` }));
+    surfaceRef.current = surface;
+    if (sceneRef) {
+      sceneRef.current = {
+        size: () => ({ w: dimensionsRef.current.w, h: dimensionsRef.current.h, scale: renderScaleRef.current }),
+        layers: async () => ({ globe: await surface.snapshot(), fx: fxCanvasRef.current }),
+      };
+    }
+    return () => {
+      surface.dispose();
+      surfaceRef.current = null;
+      if (sceneRef) sceneRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    surfaceRef.current?.setStars(config.stars);
+
+    let cancelled = false;
+    loadWorldGeometry(config.geo)
+      .then(geo => {
+        if (cancelled) return;
+        featuresMapRef.current = geo.index;
+        featureCodesRef.current = new Map([...geo.index].map(([iso3, f]) => [f, iso3]));
+        geoDataRef.current = geo.collection;
+        const globeGeometry = toGlobeGeometry(geo, simulation.rates);
+        surfaceRef.current?.setGeometry(globeGeometry);
+        markersRef.current.setGeometry(globeGeometry);
+        const focusFeature = config.focus && geo.index.get(config.focus);
+        if (focusFeature) {
+          const [lon, lat] = focusFeature.centroid;
+          viewRef.current.lambda = -lon;
+          homeLambdaRef.current = -lon;
+          viewRef.current.phi = -lat;
+          homePhiRef.current = -lat;
+          setSelected(config.focus);
+        }
+        setGeoStatus('ready');
+      })
+      .catch(err => {
+        console.error("World geometry load failed", err);
+        if (!cancelled) setGeoStatus('unavailable');
+      });
+    return () => { cancelled = true; };
+  }, [config, simulation]);
+
+  // Cached gradients, the star layer and the pacifier sprite bake in theme colours, so rebuild
+  // them on a switch
+  useEffect(() => {
+    themeRef.current = theme;
+    surfaceRef.current?.setTheme(theme);
+    const { colors } = theme;
+    const pSprite = document.createElement('canvas');
+    const size = 128; 
+    pSprite.width = size * 2; 
+    pSprite.height = size * 2;
+    const sCtx = pSprite.getContext('2d');
+    if (sCtx) {
+      sCtx.translate(size, size);
+      sCtx.shadowBlur = 80;
+      sCtx.shadowColor = colors.PACIFIER_HALO;
+      sCtx.beginPath();
+      sCtx.arc(0, 0, 30, 0, Math.PI * 2);
+      sCtx.fillStyle = withAlpha(colors.PACIFIER_HALO, 0.25);
+      sCtx.fill();
+      sCtx.shadowBlur = 30;
+      sCtx.shadowColor = colors.PACIFIER_GLOW;
+      sCtx.beginPath();
+      sCtx.arc(0, 20, 14, 0, Math.PI * 2);
+      sCtx.strokeStyle = colors.PACIFIER_CORE;
+      sCtx.lineWidth = 6;
+      sCtx.stroke();
+      sCtx.beginPath();
+      sCtx.ellipse(0, 0, 26, 12, 0, 0, Math.PI * 2);
+      sCtx.fillStyle = colors.PACIFIER_GLOW;
+      sCtx.fill();
+      sCtx.strokeStyle = colors.PACIFIER_CORE;
+      sCtx.lineWidth = 2;
+      sCtx.stroke();
+      sCtx.beginPath();
+      sCtx.arc(0, -14, 12, 0, Math.PI * 2);
+      sCtx.fillStyle = colors.PACIFIER_CORE;
+      sCtx.shadowBlur = 20;
+      sCtx.shadowColor = colors.PACIFIER_CORE;
+      sCtx.fill();
+    }
+    pacifierSpriteRef.current = pSprite;
+  }, [theme]);
+
+  useEffect(() => {
+    showStatsRef.current = showStats;
+    if (!showStats) setRenderStats(null);
+  }, [showStats]);
+
+  // Sizes both canvases and centres the projection for the current layout and render scale
+  const layoutGlobe = () => {
+    const { w, h } = dimensionsRef.current;
+    const renderScale = renderScaleRef.current;
+    surfaceRef.current?.resize(w, h, renderScale);
+    const fCanvas = fxCanvasRef.current;
+    if (fCanvas) {
+      fCanvas.width = w;
+      fCanvas.height = h;
+    }
+    const { cx, cy } = globeLayout(w, h, i18n.dir, config.hud !== 'off', config.wall);
+    projectionRef.current.translate([cx * renderScale, cy * renderScale]);
+  };
+
+  // Follows the size of the element the map fills: the window in the full-screen app, the host
+  // element when embedded
+  useEffect(() => {
+    const fCanvas = fxCanvasRef.current!;
+    const handleResize = () => {
+      const boxW = fCanvas.clientWidth || window.innerWidth;
+      const boxH = fCanvas.clientHeight || window.innerHeight;
+      let w = boxW;
+      let h = boxH;
+      if (w > config.maxWidth) { h = (config.maxWidth / w) * h; w = config.maxWidth; }
+      if (h > config.maxHeight) { w = (config.maxHeight / h) * w; h = config.maxHeight; }
+      dimensionsRef.current = { w, h, cssScale: boxW / w };
+      layoutGlobe();
+    };
+
+    const observer = new ResizeObserver(handleResize);
+    observer.observe(fCanvas);
+    handleResize(); 
+    return () => observer.disconnect();
+  }, [config, i18n.dir]);
+
+  useEffect(() => {
+    if (celebrations) burstRef.current = true;
+  }, [celebrations]);
+
+  useEffect(() => {
+    const unsubscribes = [simulation, ...metrics.map(m => m.simulation)].map(source => source.subscribe(({ events, resync }) => {
+      if (resync) markersRef.current.clear();
+      if (geoDataRef.current) markersRef.current.add(events);
+    }));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [simulation, metrics]);
+
+  useEffect(() => {
+    selectedRef.current = selected;
+    if (!selected) return;
+    return simulation.subscribe(({ time }) => {
+      setSelectedBirths(simulation.countryBirthsToday(time).get(selected) || 0);
+    });
+  }, [simulation, selected]);
+
+  const markInteraction = () => {
+    viewRef.current.lastInteraction = performance.now();
+    viewRef.current.autoBlend = 0;
+  };
+
+  const toCanvasPoint = (e: { clientX: number; clientY: number }): [number, number] => {
+    const rect = fxCanvasRef.current!.getBoundingClientRect();
+    const k = (dimensionsRef.current.w / rect.width) * renderScaleRef.current;
+    return [(e.clientX - rect.left) * k, (e.clientY - rect.top) * k];
+  };
+
+  const selectAt = (point: [number, number]) => {
+    const projection = projectionRef.current;
+    const lonLat = projection.invert(point);
+    const center = projection.invert(projection.translate());
+    const onGlobe = lonLat && !isNaN(lonLat[0]) && d3.geoDistance(lonLat, center) < Math.PI / 2;
+    const feature = onGlobe && geoDataRef.current?.features.find((f: any) => d3.geoContains(f, lonLat));
+    setSelected((feature && featureCodesRef.current.get(feature)) || null);
+  };
+
+  useEffect(() => {
+    const canvas = globeCanvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      viewRef.current.zoom = clampZoom(viewRef.current.zoom * Math.exp(-e.deltaY * 0.0015));
+      markInteraction();
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, toCanvasPoint(e));
+    const gesture = gestureRef.current;
+    if (pointersRef.current.size === 1) {
+      gesture.moved = 0;
+      gesture.lastMoveTime = performance.now();
+    } else {
+      // A second finger turns the gesture into a pinch; it can no longer end as a tap
+      gesture.moved = Infinity;
+      gesture.pinchDist = 0;
+    }
+    viewRef.current.velLambda = 0;
+    viewRef.current.velPhi = 0;
+    markInteraction();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const prev = pointersRef.current.get(e.pointerId);
+    if (!prev) return;
+    const point = toCanvasPoint(e);
+    pointersRef.current.set(e.pointerId, point);
+    const view = viewRef.current;
+    const gesture = gestureRef.current;
+    markInteraction();
+
+    if (pointersRef.current.size >= 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      const dist = Math.hypot(a[0] - b[0], a[1] - b[1]);
+      if (gesture.pinchDist > 0) view.zoom = clampZoom(view.zoom * (dist / gesture.pinchDist));
+      gesture.pinchDist = dist;
+      return;
+    }
+
+    const dx = point[0] - prev[0];
+    const dy = point[1] - prev[1];
+    gesture.moved += Math.hypot(dx, dy);
+    // A drag of one globe radius turns the surface by one radian, so the grabbed point follows
+    const degPerPx = 180 / Math.PI / projectionRef.current.scale();
+    view.lambda += dx * degPerPx;
+    view.phi -= dy * degPerPx;
+    const now = performance.now();
+    const dt = Math.max((now - gesture.lastMoveTime) / 1000, 1 / 120);
+    view.velLambda = (dx * degPerPx) / dt;
+    view.velPhi = (-dy * degPerPx) / dt;
+    gesture.lastMoveTime = now;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = pointersRef.current.get(e.pointerId);
+    pointersRef.current.delete(e.pointerId);
+    gestureRef.current.pinchDist = 0;
+    if (!point) return;
+    markInteraction();
+    if (!pointersRef.current.size && gestureRef.current.moved < TAP_SLOP_PX) {
+      selectAt(point);
+    } else if (performance.now() - gestureRef.current.lastMoveTime > 80) {
+      // The pointer came to rest before release: no fling
+      viewRef.current.velLambda = 0;
+      viewRef.current.velPhi = 0;
+    }
+  };
+
+  useEffect(() => {
+    const fCanvas = fxCanvasRef.current;
+    const surface = surfaceRef.current;
+    if (!fCanvas || !surface) return;
+    const fCtx = fCanvas.getContext('2d');
+    if (!fCtx) return;
+
+    let animId: number;
+    let lastCost = 0;
+    let lastStatsAt = 0;
+    let lastSimTime = simulation.now();
+    const projection = projectionRef.current;
+    const governor = createQualityGovernor(config.adaptive);
+    if (reducedMotion) {
+      comets.current = [];
+      pacifiers.current = [];
+    }
+    if (renderScaleRef.current !== config.scale) {
+      renderScaleRef.current = config.scale;
+      layoutGlobe();
+    }
+
+    const render = (time: number) => {
+      const frameStart = performance.now();
+      if (!lastTimeRef.current) lastTimeRef.current = time;
+      const deltaTime = (time - lastTimeRef.current) / 1000; 
+      lastTimeRef.current = time;
+
+      if (governor.sample(deltaTime * 1000, Math.max(lastCost, surface.lastDrawMs()))) {
+        renderScaleRef.current = config.scale * governor.level().scale;
+        layoutGlobe();
+      }
+      const quality = governor.level();
+      const renderScale = renderScaleRef.current;
+
+      const dtFactor = Math.min(deltaTime * 60, 2.0); 
+
+      const { w, h, cssScale } = dimensionsRef.current;
+      const view = viewRef.current;
+      const layout = globeLayout(w, h, i18n.dir, config.hud !== 'off', config.wall);
+      const r = (layout.size * 0.36) * renderScale * view.zoom;
+      const cx = layout.cx * renderScale;
+      const cy = layout.cy * renderScale;
+      const timeNow = simulation.now();
+      const simDelta = timeNow - lastSimTime;
+      lastSimTime = timeNow;
+      const flashSpan = FLASH_DURATION_MS * Math.max(1, simulation.timeScale());
+      const { colors } = themeRef.current;
+      const effects = config.fx && !reducedMotion;
+
+      fCtx.clearRect(0, 0, w, h);
+      fCtx.globalCompositeOperation = 'screen';
+      
+      if (burstRef.current) {
+        burstRef.current = false;
+        if (effects) {
+          const rim = layout.size * 0.36 * view.zoom;
+          for (let i = 0; i < BURST_COMETS; i++) {
+            const angle = (i / BURST_COMETS) * Math.PI * 2 + Math.random() * 0.3;
+            const speed = 8 + Math.random() * 5;
+            comets.current.push({
+              x: layout.cx + Math.cos(angle) * rim,
+              y: layout.cy + Math.sin(angle) * rim,
+              vx: Math.cos(angle) * speed,
+              vy: Math.sin(angle) * speed,
+              length: 80 + Math.random() * 120,
+              alpha: 0.6,
+              thickness: 1.5 + Math.random() * 2,
+              decay: 0.004,
+            });
+          }
+          for (let i = 0; i < BURST_PACIFIERS && pacifierSpriteRef.current; i++) {
+            const angle = Math.random() * Math.PI * 2;
+            const speed = 220 + Math.random() * 200;
+            pacifiers.current.push({
+              x: layout.cx + Math.cos(angle) * rim * 0.5,
+              y: layout.cy + Math.sin(angle) * rim * 0.5,
+              vx: Math.cos(angle) * speed,
+              vy: Math.sin(angle) * speed,
+              rot: Math.random() * Math.PI * 2,
+              rv: (Math.random() - 0.5) * 0.2,
+              size: 30 + Math.random() * 25,
+              alpha: 0.8,
+            });
+          }
+        }
+      }
+
+      // Update & Draw Comets
+      if (effects && comets.current.length < Math.round(config.comets * quality.effects) && Math.random() < 0.02) {
+        const angle = Math.random() * Math.PI * 2;
+        const speed = (2 + Math.random() * 5) * 1.3; 
+        comets.current.push({
+          x: Math.random() * w,
+          y: Math.random() * h,
+          vx: Math.cos(angle) * speed,
+          vy: Math.sin(angle) * speed,
+          length: 50 + Math.random() * 150,
+          alpha: 0,
+          thickness: 1 + Math.random() * 2,
+          decay: 0.002 + Math.random() * 0.005
+        });
+      }
+
+      for (let i = comets.current.length - 1; i >= 0; i--) {
+        const c = comets.current[i];
+        c.x += c.vx * dtFactor;
+        c.y += c.vy * dtFactor;
+        c.alpha += 0.02 * dtFactor;
+        
+        if (c.x < -300 || c.x > w + 300 || c.y < -300 || c.y > h + 300) {
+           comets.current.splice(i, 1);
+           continue;
+        }
+
+        const angle = Math.atan2(c.vy, c.vx);
+        const trailX = c.x - Math.cos(angle) * c.length;
+        const trailY = c.y - Math.sin(angle) * c.length;
+
+        const cometGrad = fCtx.createLinearGradient(c.x, c.y, trailX, trailY);
+        const a = Math.min(c.alpha, 1);
+        cometGrad.addColorStop(0, withAlpha(colors.COMET_HEAD, a));
+        cometGrad.addColorStop(0.2, withAlpha(colors.COMET_TRAIL, a * 0.8));
+        cometGrad.addColorStop(1, 'rgba(0, 0, 0, 0)');
+
+        fCtx.save();
+        fCtx.beginPath();
+        fCtx.moveTo(c.x, c.y);
+        fCtx.lineTo(trailX, trailY);
+        fCtx.strokeStyle = cometGrad;
+        fCtx.lineWidth = c.thickness;
+        fCtx.lineCap = 'round';
+        fCtx.stroke();
+
+        fCtx.beginPath();
+        fCtx.arc(c.x, c.y, c.thickness * 1.5, 0, Math.PI * 2);
+        fCtx.fillStyle = colors.COMET_HEAD;
+        if (quality.shadows) {
+          fCtx.shadowBlur = 10;
+          fCtx.shadowColor = colors.COMET_GLOW;
+        }
+        fCtx.fill();
+        fCtx.restore();
+      }
+
+      // Update & Draw Pacifiers
+      if (pacifierSpriteRef.current) {
+        if (effects && pacifiers.current.length < Math.round(config.pacifiers * quality.effects)) {
+          pacifiers.current.push({
+            x: Math.random() * w, 
+            y: Math.random() * h,
+            vx: (Math.random() - 0.5) * 120, 
+            vy: (Math.random() - 0.5) * 120,
+            rot: Math.random() * Math.PI * 2, 
+            rv: (Math.random() - 0.5) * 0.06,
+            size: 30 + Math.random() * 25,
+            alpha: 0
+          });
+        }
+        for (let i = pacifiers.current.length - 1; i >= 0; i--) {
+          const p = pacifiers.current[i];
+          p.x += p.vx * deltaTime; 
+          p.y += p.vy * deltaTime; 
+          p.rot += p.rv * dtFactor;
+          p.alpha = Math.min(p.alpha + 0.005 * dtFactor, 0.8);
+          
+          if (p.x < -300 || p.x > w + 300 || p.y < -300 || p.y > h + 300) {
+            pacifiers.current.splice(i, 1);
+            continue;
+          }
+          fCtx.save();
+          fCtx.globalAlpha = p.alpha;
+          fCtx.translate(p.x, p.y); 
+          fCtx.rotate(p.rot);
+          fCtx.drawImage(pacifierSpriteRef.current!, -p.size, -p.size, p.size * 2, p.size * 2);
+          fCtx.restore();
+        }
+      }
+
+      // Drag inertia while released, then an eased return to auto-rotation once idle
+      if (!pointersRef.current.size) {
+        view.lambda += view.velLambda * deltaTime;
+        view.phi += view.velPhi * deltaTime;
+        const decay = Math.exp(-INERTIA_DECAY * deltaTime);
+        view.velLambda *= decay;
+        view.velPhi *= decay;
+        if (time - view.lastInteraction > IDLE_RESUME_MS) {
+          view.autoBlend = Math.min(1, view.autoBlend + deltaTime / AUTO_RESUME_EASE_S);
+          const ease = 1 - Math.exp(-deltaTime * view.autoBlend);
+          view.phi += (homePhiRef.current - view.phi) * ease;
+          view.zoom += (1 - view.zoom) * ease;
+        }
+        const spin = reducedMotion ? REDUCED_ROTATION : 1;
+        if (config.sync) {
+          // Synced screens derive the angle from the shared clock, so they all agree on it
+          const turned = simulation.isLive() ? (config.rotation * timeNow) / 1000 : (360 * timeNow) / DAY_MS;
+          const gap = ((((homeLambdaRef.current + turned * spin - view.lambda) % 360) + 540) % 360) - 180;
+          view.lambda += view.autoBlend >= 1 ? gap : gap * (1 - Math.exp(-deltaTime * 2 * view.autoBlend));
+        } else {
+          // High-precision rotation accumulator. A replay turns the globe with the Earth instead,
+          // one revolution per simulated day, so scrubbing and fast-forwarding carry it along.
+          view.lambda += (simulation.isLive()
+            ? config.rotation * view.autoBlend * deltaTime
+            : 360 * (simDelta / DAY_MS) * view.autoBlend) * spin;
+        }
+      }
+      view.lambda %= 360;
+      view.phi = Math.max(-90, Math.min(90, view.phi));
+      projection.rotate([view.lambda, view.phi, 0]).scale(r);
+      // Whatever point sits under the globe's centre, to tell which side the popover is on
+      const center = projection.invert([cx, cy]);
+
+      const markers = markersRef.current.active(timeNow, flashSpan, reducedMotion ? STATIC_FLASH : undefined);
+
+      // A worker still busy with the last frame is given a frame's grace instead of a queue
+      if (!surface.busy()) {
+        surface.draw({
+          rotate: [view.lambda, view.phi],
+          radius: r,
+          center: [cx, cy],
+          markers,
+          markerStyle: config.markers,
+          arcs: config.arcs,
+          selected: selectedRef.current,
+          detail: quality.detail,
+          shadows: quality.shadows,
+          twinkle: quality.twinkle && !reducedMotion,
+          dtFactor,
+          night: config.terminator ? antisolarPoint(timeNow) : null,
+          cityLights: config.cityLights && quality.cityLights,
+        });
+      }
+
+      // Keep the popover pinned to the selected country as the globe turns
+      const popover = popoverRef.current;
+      const selectedFeature = selectedRef.current && featuresMapRef.current.get(selectedRef.current);
+      if (popover) {
+        const onNearSide = selectedFeature && d3.geoDistance(selectedFeature.centroid, center) < 1.57;
+        if (onNearSide) {
+          const [px, py] = projection(selectedFeature.centroid);
+          const k = cssScale / renderScale;
+          popover.style.transform = `translate(${px * k}px, ${py * k}px)`;
+        }
+        popover.style.opacity = onNearSide ? '1' : '0';
+      }
+
+      lastCost = performance.now() - frameStart;
+      if (showStatsRef.current && time - lastStatsAt > STATS_INTERVAL_MS) {
+        lastStatsAt = time;
+        setRenderStats({
+          ...governor.stats(),
+          drawMs: surface.lastDrawMs(),
+          level: governor.index(),
+          scale: renderScale,
+          offscreen: surface.offscreen,
+        });
+      }
+      animId = requestAnimationFrame(render);
+    };
+    animId = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(animId);
+  }, [simulation, config, i18n.dir, reducedMotion]);
+
+  const selectedCountry = selected ? COUNTRY_BY_ISO3.get(selected) : null;
+
+  return (
+    <>
+      <canvas 
+        ref={globeCanvasRef} 
+        aria-hidden="true"
+        className="absolute inset-0 z-0 w-full h-full cursor-grab active:cursor-grabbing" 
+        style={{ touchAction: 'none' }} 
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      
+      <canvas ref={fxCanvasRef} aria-hidden="true" className="absolute inset-0 z-10 w-full h-full pointer-events-none" style={{ mixBlendMode: theme.fxBlend }} />
+
+      {selectedCountry && (
+        <div ref={popoverRef} className="absolute top-0 left-0 z-50 pointer-events-none transition-opacity duration-300" style={{ opacity: 0 }}>
+          <div className="-translate-x-1/2 -translate-y-[calc(100%+14px)] px-3 py-2 backdrop-blur-xl border rounded shadow-2xl flex flex-col items-center whitespace-nowrap" style={{ backgroundColor: theme.colors.PANEL, borderColor: theme.colors.PANEL_BORDER }}>
+            <span className="hud-label font-bold uppercase tracking-[0.3em] text-[0.5rem] md:text-[0.6rem]" style={{ color: theme.colors.HEADER_PURPLE }}>
+              {i18n.countryName(selectedCountry)}
+            </span>
+            <span className="hud-text font-mono text-[0.9rem] md:text-[1.2rem] font-black tabular-nums" style={{ color: theme.colors.YELLOW_VIBRANT }}>
+              {i18n.formatNumber(selectedBirths)}
+            </span>
+            <span className="hud-label uppercase tracking-[0.3em] text-[0.4rem] md:text-[0.5rem] opacity-50" style={{ color: theme.colors.TEXT }}>{i18n.messages.birthsToday}</span>
+          </div>
+        </div>
+      )}
+
+      {geoStatus !== 'ready' && (
+        <div className="absolute bottom-8 end-8 md:bottom-12 md:end-16 z-40 pointer-events-none">
+          <span className={`hud-label font-mono uppercase tracking-[0.3em] text-[0.5rem] md:text-[0.7rem] ${geoStatus === 'loading' ? 'animate-pulse' : ''}`} style={{ color: theme.colors.HEADER_PURPLE }}>
+            {geoStatus === 'loading' ? i18n.messages.mapLoading : i18n.messages.mapUnavailable}
+          </span>
+        </div>
+      )}
+
+      {showStats && <PerfOverlay stats={renderStats} />}
+    </>
+  );
+};
+
+export default WorldMap;
@@ -0,0 +1,11 @@
+import { FeedPosition } from '../types';
+
+/**
+ * Where the corner lists (the birth feed and the moments log) sit for each `FeedPosition`. Named
+ * for left-to-right layouts; they mirror with the rest of the HUD in right-to-left ones.
+ */
+export const FEED_POSITION_CLASSES: Record<FeedPosition, string> = {
+  'bottom-left': 'bottom-6 start-10 md:bottom-12 md:start-20 items-start',
+  'bottom-right': 'bottom-6 end-6 md:bottom-12 md:end-16 items-end',
+  'top-right': 'top-20 end-6 md:top-12 md:end-16 items-end',
+};
@@ -0,0 +1,740 @@
+import { Continent, CountryBirthRate, Theme, ThemeColors, ThemeName } from './types';
+
+// --- Palette ---
+export const COLORS: ThemeColors = {
+  BACKGROUND: '#000000',
+  STAR: '#ffffff',
+  LAND_BASE: '#c084fc', 
+  LAND_BORDER: 'rgba(255, 255, 255, 0.5)', 
+  OCEAN_DEEP: '#020617',
+  OCEAN_BRIGHT: '#111827', 
+  RIM_SHADOW: 'rgba(0, 0, 0, 0.85)',
+  YELLOW_VIBRANT: '#fbbf24', 
+  YELLOW_PEAK: '#fff700', 
+  GOLD: '#FFD700', // Solid Gold Color
+  ATMOSPHERE: 'rgba(168, 85, 247, 0.25)', 
+  ATMOSPHERE_FADE: 'rgba(168, 85, 247, 0.08)',
+  SPECULAR: 'rgba(255, 255, 255, 0.12)', 
+  HEADER_PURPLE: '#a855f7', 
+  PACIFIER_HALO: 'rgba(96, 165, 250, 0.4)',
+  PACIFIER_GLOW: '#60a5fa',
+  PACIFIER_CORE: '#ffffff',
+  COMET_HEAD: '#ffffff',
+  COMET_TRAIL: '#93c5fd',
+  COMET_GLOW: '#93c5fd',
+  GRATICULE: 'rgba(192, 132, 252, 0.35)',
+  NIGHT: 'rgba(2, 6, 23, 0.55)',
+  CITY_LIGHTS: '#fcd34d',
+  COUNTER_GLOW: 'rgba(250, 204, 21, 0.4)',
+  PROGRESS_GLOW: 'rgba(255, 215, 0, 0.6)',
+  PROGRESS_TRACK: 'rgba(255, 255, 255, 0.1)',
+  OVERLAY: '#000000',
+  PANEL: 'rgba(0, 0, 0, 0.55)',
+  PANEL_BORDER: 'rgba(255, 255, 255, 0.1)',
+  TEXT: '#ffffff',
+};
+
+// --- Themes ---
+const BRAND_FONTS: Theme['fonts'] = {
+  brand: "'Montserrat', sans-serif",
+  counter: "'Bebas Neue', cursive",
+  ui: "'Inter', sans-serif",
+};
+
+export const THEMES: Record<ThemeName, Theme> = {
+  brand: { name: 'brand', colors: COLORS, fonts: BRAND_FONTS, stars: true, fxBlend: 'screen' },
+
+  // Flat, saturated colours with no gloss or starfield, for low-vision viewers and projectors
+  'high-contrast': {
+    name: 'high-contrast',
+    colors: {
+      ...COLORS,
+      LAND_BASE: '#525252',
+      LAND_BORDER: '#ffffff',
+      OCEAN_DEEP: '#000000',
+      OCEAN_BRIGHT: '#0a0a0a',
+      RIM_SHADOW: 'rgba(0, 0, 0, 0)',
+      YELLOW_VIBRANT: '#ffff00',
+      YELLOW_PEAK: '#ffffff',
+      GOLD: '#ffff00',
+      ATMOSPHERE: 'rgba(255, 255, 255, 0.3)',
+      ATMOSPHERE_FADE: 'rgba(255, 255, 255, 0.05)',
+      SPECULAR: 'rgba(255, 255, 255, 0)',
+      HEADER_PURPLE: '#ffffff',
+      GRATICULE: 'rgba(255, 255, 255, 0.6)',
+      NIGHT: 'rgba(0, 0, 0, 0.6)',
+      CITY_LIGHTS: '#ffff00',
+      COUNTER_GLOW: 'rgba(0, 0, 0, 0)',
+      PROGRESS_GLOW: 'rgba(0, 0, 0, 0)',
+      PROGRESS_TRACK: 'rgba(255, 255, 255, 0.4)',
+      PANEL: 'rgba(0, 0, 0, 0.9)',
+      PANEL_BORDER: '#ffffff',
+    },
+    fonts: { ...BRAND_FONTS, counter: "'Anton', sans-serif" },
+    stars: false,
+    fxBlend: 'screen',
+  },
+
+  // Light background for bright venues and daytime outdoor screens
+  daylight: {
+    name: 'daylight',
+    colors: {
+      ...COLORS,
+      BACKGROUND: '#e0f2fe',
+      LAND_BASE: '#9333ea',
+      LAND_BORDER: 'rgba(255, 255, 255, 0.7)',
+      OCEAN_DEEP: '#0369a1',
+      OCEAN_BRIGHT: '#38bdf8',
+      RIM_SHADOW: 'rgba(12, 74, 110, 0.45)',
+      YELLOW_VIBRANT: '#b45309',
+      YELLOW_PEAK: '#fde047',
+      GOLD: '#d97706',
+      ATMOSPHERE: 'rgba(56, 189, 248, 0.35)',
+      ATMOSPHERE_FADE: 'rgba(56, 189, 248, 0.1)',
+      SPECULAR: 'rgba(255, 255, 255, 0.3)',
+      HEADER_PURPLE: '#6b21a8',
+      PACIFIER_HALO: 'rgba(37, 99, 235, 0.3)',
+      PACIFIER_GLOW: '#2563eb',
+      COMET_HEAD: '#1e3a8a',
+      COMET_TRAIL: '#3b82f6',
+      COMET_GLOW: '#2563eb',
+      GRATICULE: 'rgba(107, 33, 168, 0.35)',
+      NIGHT: 'rgba(12, 74, 110, 0.35)',
+      CITY_LIGHTS: '#f59e0b',
+      COUNTER_GLOW: 'rgba(180, 83, 9, 0.25)',
+      PROGRESS_GLOW: 'rgba(217, 119, 6, 0.5)',
+      PROGRESS_TRACK: 'rgba(15, 23, 42, 0.15)',
+      OVERLAY: '#e0f2fe',
+      PANEL: 'rgba(255, 255, 255, 0.75)',
+      PANEL_BORDER: 'rgba(15, 23, 42, 0.15)',
+      TEXT: '#0f172a',
+    },
+    fonts: BRAND_FONTS,
+    stars: false,
+    fxBlend: 'normal',
+  },
+
+  // Co-branded campaigns: teal and coral, with the partner name set under the brand line
+  partner: {
+    name: 'partner',
+    colors: {
+      ...COLORS,
+      BACKGROUND: '#03111a',
+      LAND_BASE: '#2dd4bf',
+      LAND_BORDER: 'rgba(255, 255, 255, 0.45)',
+      OCEAN_DEEP: '#021c26',
+      OCEAN_BRIGHT: '#0b3440',
+      YELLOW_VIBRANT: '#fb7185',
+      YELLOW_PEAK: '#ffe4e6',
+      GOLD: '#f43f5e',
+      ATMOSPHERE: 'rgba(45, 212, 191, 0.25)',
+      ATMOSPHERE_FADE: 'rgba(45, 212, 191, 0.08)',
+      HEADER_PURPLE: '#5eead4',
+      PACIFIER_HALO: 'rgba(253, 164, 175, 0.4)',
+      PACIFIER_GLOW: '#fda4af',
+      COMET_TRAIL: '#5eead4',
+      COMET_GLOW: '#99f6e4',
+      GRATICULE: 'rgba(45, 212, 191, 0.35)',
+      NIGHT: 'rgba(1, 10, 16, 0.6)',
+      CITY_LIGHTS: '#fda4af',
+      COUNTER_GLOW: 'rgba(251, 113, 133, 0.4)',
+      PROGRESS_GLOW: 'rgba(244, 63, 94, 0.6)',
+      OVERLAY: '#03111a',
+    },
+    fonts: { ...BRAND_FONTS, brand: "'Playfair Display', serif", counter: "'Anton', sans-serif" },
+    stars: true,
+    fxBlend: 'screen',
+  },
+};
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+// --- Birth Rate Model ---
+// Approximate annual live births per country (UN WPP, 2023 estimates). Replaceable at runtime
+// through the birth-rate providers, which keep the names, codes and zones from this table.
+// Other per-country facts live in their own tables below, keyed by iso3, and are joined onto
+// these rows; a new column is a new table rather than an edit to every row.
+const BIRTHS_PER_YEAR: Pick<CountryBirthRate, 'iso3' | 'name' | 'birthsPerYear'>[] = [
+  { iso3: 'IND', name: 'India', birthsPerYear: 23_200_000 },
+  { iso3: 'CHN', name: 'China', birthsPerYear: 9_020_000 },
+  { iso3: 'NGA', name: 'Nigeria', birthsPerYear: 7_600_000 },
+  { iso3: 'PAK', name: 'Pakistan', birthsPerYear: 6_900_000 },
+  { iso3: 'COD', name: 'DR Congo', birthsPerYear: 4_600_000 },
+  { iso3: 'IDN', name: 'Indonesia', birthsPerYear: 4_400_000 },
+  { iso3: 'ETH', name: 'Ethiopia', birthsPerYear: 3_900_000 },
+  { iso3: 'USA', name: 'United States', birthsPerYear: 3_600_000 },
+  { iso3: 'BGD', name: 'Bangladesh', birthsPerYear: 3_000_000 },
+  { iso3: 'BRA', name: 'Brazil', birthsPerYear: 2_550_000 },
+  { iso3: 'TZA', name: 'Tanzania', birthsPerYear: 2_300_000 },
+  { iso3: 'EGY', name: 'Egypt', birthsPerYear: 2_150_000 },
+  { iso3: 'MEX', name: 'Mexico', birthsPerYear: 1_900_000 },
+  { iso3: 'PHL', name: 'Philippines', birthsPerYear: 1_800_000 },
+  { iso3: 'UGA', name: 'Uganda', birthsPerYear: 1_700_000 },
+  { iso3: 'AFG', name: 'Afghanistan', birthsPerYear: 1_500_000 },
+  { iso3: 'SDN', name: 'Sudan', birthsPerYear: 1_500_000 },
+  { iso3: 'KEN', name: 'Kenya', birthsPerYear: 1_400_000 },
+  { iso3: 'AGO', name: 'Angola', birthsPerYear: 1_400_000 },
+  { iso3: 'VNM', name: 'Vietnam', birthsPerYear: 1_400_000 },
+  { iso3: 'RUS', name: 'Russia', birthsPerYear: 1_270_000 },
+  { iso3: 'NER', name: 'Niger', birthsPerYear: 1_200_000 },
+  { iso3: 'MOZ', name: 'Mozambique', birthsPerYear: 1_200_000 },
+  { iso3: 'IRQ', name: 'Iraq', birthsPerYear: 1_150_000 },
+  { iso3: 'ZAF', name: 'South Africa', birthsPerYear: 1_150_000 },
+  { iso3: 'TUR', name: 'Turkey', birthsPerYear: 1_050_000 },
+  { iso3: 'IRN', name: 'Iran', birthsPerYear: 1_050_000 },
+  { iso3: 'MDG', name: 'Madagascar', birthsPerYear: 950_000 },
+  { iso3: 'CMR', name: 'Cameroon', birthsPerYear: 950_000 },
+  { iso3: 'CIV', name: "Côte d'Ivoire", birthsPerYear: 950_000 },
+  { iso3: 'YEM', name: 'Yemen', birthsPerYear: 950_000 },
+  { iso3: 'MLI', name: 'Mali', birthsPerYear: 900_000 },
+  { iso3: 'GHA', name: 'Ghana', birthsPerYear: 900_000 },
+  { iso3: 'DZA', name: 'Algeria', birthsPerYear: 900_000 },
+  { iso3: 'UZB', name: 'Uzbekistan', birthsPerYear: 900_000 },
+  { iso3: 'MMR', name: 'Myanmar', birthsPerYear: 850_000 },
+  { iso3: 'BFA', name: 'Burkina Faso', birthsPerYear: 800_000 },
+  { iso3: 'JPN', name: 'Japan', birthsPerYear: 760_000 },
+  { iso3: 'SOM', name: 'Somalia', birthsPerYear: 750_000 },
+  { iso3: 'TCD', name: 'Chad', birthsPerYear: 750_000 },
+  { iso3: 'DEU', name: 'Germany', birthsPerYear: 690_000 },
+  { iso3: 'FRA', name: 'France', birthsPerYear: 680_000 },
+  { iso3: 'GBR', name: 'United Kingdom', birthsPerYear: 680_000 },
+  { iso3: 'MAR', name: 'Morocco', birthsPerYear: 650_000 },
+  { iso3: 'MWI', name: 'Malawi', birthsPerYear: 650_000 },
+  { iso3: 'ZMB', name: 'Zambia', birthsPerYear: 650_000 },
+  { iso3: 'SAU', name: 'Saudi Arabia', birthsPerYear: 560_000 },
+  { iso3: 'NPL', name: 'Nepal', birthsPerYear: 560_000 },
+  { iso3: 'GIN', name: 'Guinea', birthsPerYear: 550_000 },
+  { iso3: 'SEN', name: 'Senegal', birthsPerYear: 550_000 },
+  { iso3: 'THA', name: 'Thailand', birthsPerYear: 520_000 },
+  { iso3: 'COL', name: 'Colombia', birthsPerYear: 520_000 },
+  { iso3: 'SYR', name: 'Syria', birthsPerYear: 520_000 },
+  { iso3: 'PER', name: 'Peru', birthsPerYear: 500_000 },
+  { iso3: 'ZWE', name: 'Zimbabwe', birthsPerYear: 480_000 },
+  { iso3: 'VEN', name: 'Venezuela', birthsPerYear: 470_000 },
+  { iso3: 'ARG', name: 'Argentina', birthsPerYear: 460_000 },
+  { iso3: 'BEN', name: 'Benin', birthsPerYear: 450_000 },
+  { iso3: 'MYS', name: 'Malaysia', birthsPerYear: 440_000 },
+  { iso3: 'BDI', name: 'Burundi', birthsPerYear: 420_000 },
+  { iso3: 'SSD', name: 'South Sudan', birthsPerYear: 400_000 },
+  { iso3: 'KAZ', name: 'Kazakhstan', birthsPerYear: 390_000 },
+  { iso3: 'RWA', name: 'Rwanda', birthsPerYear: 380_000 },
+  { iso3: 'ITA', name: 'Italy', birthsPerYear: 380_000 },
+  { iso3: 'GTM', name: 'Guatemala', birthsPerYear: 370_000 },
+  { iso3: 'CAN', name: 'Canada', birthsPerYear: 350_000 },
+  { iso3: 'PRK', name: 'North Korea', birthsPerYear: 340_000 },
+  { iso3: 'KHM', name: 'Cambodia', birthsPerYear: 330_000 },
+  { iso3: 'ESP', name: 'Spain', birthsPerYear: 320_000 },
+  { iso3: 'AUS', name: 'Australia', birthsPerYear: 290_000 },
+  { iso3: 'HTI', name: 'Haiti', birthsPerYear: 270_000 },
+  { iso3: 'SLE', name: 'Sierra Leone', birthsPerYear: 270_000 },
+  { iso3: 'POL', name: 'Poland', birthsPerYear: 270_000 },
+  { iso3: 'TGO', name: 'Togo', birthsPerYear: 260_000 },
+  { iso3: 'CAF', name: 'Central African Republic', birthsPerYear: 260_000 },
+  { iso3: 'PNG', name: 'Papua New Guinea', birthsPerYear: 260_000 },
+  { iso3: 'ECU', name: 'Ecuador', birthsPerYear: 250_000 },
+  { iso3: 'BOL', name: 'Bolivia', birthsPerYear: 250_000 },
+  { iso3: 'LKA', name: 'Sri Lanka', birthsPerYear: 250_000 },
+  { iso3: 'TJK', name: 'Tajikistan', birthsPerYear: 250_000 },
+  { iso3: 'KOR', name: 'South Korea', birthsPerYear: 230_000 },
+  { iso3: 'HND', name: 'Honduras', birthsPerYear: 200_000 },
+  { iso3: 'JOR', name: 'Jordan', birthsPerYear: 200_000 },
+  { iso3: 'DOM', name: 'Dominican Republic', birthsPerYear: 200_000 },
+  { iso3: 'UKR', name: 'Ukraine', birthsPerYear: 190_000 },
+  { iso3: 'COG', name: 'Congo', birthsPerYear: 190_000 },
+  { iso3: 'CHL', name: 'Chile', birthsPerYear: 190_000 },
+  { iso3: 'ISR', name: 'Israel', birthsPerYear: 180_000 },
+  { iso3: 'LAO', name: 'Laos', birthsPerYear: 170_000 },
+  { iso3: 'LBR', name: 'Liberia', birthsPerYear: 170_000 },
+  { iso3: 'NLD', name: 'Netherlands', birthsPerYear: 165_000 },
+  { iso3: 'TUN', name: 'Tunisia', birthsPerYear: 160_000 },
+  { iso3: 'MRT', name: 'Mauritania', birthsPerYear: 160_000 },
+  { iso3: 'ROU', name: 'Romania', birthsPerYear: 160_000 },
+  { iso3: 'KGZ', name: 'Kyrgyzstan', birthsPerYear: 160_000 },
+  { iso3: 'PRY', name: 'Paraguay', birthsPerYear: 140_000 },
+  { iso3: 'TWN', name: 'Taiwan', birthsPerYear: 135_000 },
+  { iso3: 'LBY', name: 'Libya', birthsPerYear: 130_000 },
+  { iso3: 'PSE', name: 'Palestine', birthsPerYear: 130_000 },
+  { iso3: 'NIC', name: 'Nicaragua', birthsPerYear: 130_000 },
+  { iso3: 'AZE', name: 'Azerbaijan', birthsPerYear: 112_000 },
+  { iso3: 'BEL', name: 'Belgium', birthsPerYear: 112_000 },
+  { iso3: 'ERI', name: 'Eritrea', birthsPerYear: 110_000 },
+  { iso3: 'TKM', name: 'Turkmenistan', birthsPerYear: 110_000 },
+  { iso3: 'ARE', name: 'United Arab Emirates', birthsPerYear: 100_000 },
+  { iso3: 'SWE', name: 'Sweden', birthsPerYear: 100_000 },
+  { iso3: 'CUB', name: 'Cuba', birthsPerYear: 95_000 },
+  { iso3: 'SLV', name: 'El Salvador', birthsPerYear: 95_000 },
+  { iso3: 'CZE', name: 'Czechia', birthsPerYear: 91_000 },
+  { iso3: 'OMN', name: 'Oman', birthsPerYear: 85_000 },
+  { iso3: 'HUN', name: 'Hungary', birthsPerYear: 85_000 },
+  { iso3: 'PRT', name: 'Portugal', birthsPerYear: 85_000 },
+  { iso3: 'GMB', name: 'Gambia', birthsPerYear: 80_000 },
+  { iso3: 'LBN', name: 'Lebanon', birthsPerYear: 80_000 },
+  { iso3: 'CHE', name: 'Switzerland', birthsPerYear: 80_000 },
+  { iso3: 'AUT', name: 'Austria', birthsPerYear: 77_000 },
+  { iso3: 'GAB', name: 'Gabon', birthsPerYear: 75_000 },
+  { iso3: 'GNB', name: 'Guinea-Bissau', birthsPerYear: 75_000 },
+  { iso3: 'PAN', name: 'Panama', birthsPerYear: 75_000 },
+  { iso3: 'GRC', name: 'Greece', birthsPerYear: 72_000 },
+  { iso3: 'NAM', name: 'Namibia', birthsPerYear: 70_000 },
+  { iso3: 'BLR', name: 'Belarus', birthsPerYear: 65_000 },
+  { iso3: 'MNG', name: 'Mongolia', birthsPerYear: 65_000 },
+  { iso3: 'BWA', name: 'Botswana', birthsPerYear: 60_000 },
+  { iso3: 'SRB', name: 'Serbia', birthsPerYear: 60_000 },
+  { iso3: 'NZL', name: 'New Zealand', birthsPerYear: 59_000 },
+  { iso3: 'DNK', name: 'Denmark', birthsPerYear: 57_000 },
+  { iso3: 'BGR', name: 'Bulgaria', birthsPerYear: 56_000 },
+  { iso3: 'LSO', name: 'Lesotho', birthsPerYear: 55_000 },
+  { iso3: 'GNQ', name: 'Equatorial Guinea', birthsPerYear: 55_000 },
+  { iso3: 'CRI', name: 'Costa Rica', birthsPerYear: 55_000 },
+  { iso3: 'IRL', name: 'Ireland', birthsPerYear: 55_000 },
+  { iso3: 'NOR', name: 'Norway', birthsPerYear: 52_000 },
+  { iso3: 'SVK', name: 'Slovakia', birthsPerYear: 52_000 },
+  { iso3: 'KWT', name: 'Kuwait', birthsPerYear: 50_000 },
+  { iso3: 'GEO', name: 'Georgia', birthsPerYear: 45_000 },
+  { iso3: 'FIN', name: 'Finland', birthsPerYear: 43_000 },
+  { iso3: 'TLS', name: 'Timor-Leste', birthsPerYear: 38_000 },
+  { iso3: 'ARM', name: 'Armenia', birthsPerYear: 36_000 },
+  { iso3: 'HRV', name: 'Croatia', birthsPerYear: 33_000 },
+  { iso3: 'URY', name: 'Uruguay', birthsPerYear: 32_000 },
+  { iso3: 'JAM', name: 'Jamaica', birthsPerYear: 30_000 },
+  { iso3: 'SWZ', name: 'Eswatini', birthsPerYear: 30_000 },
+  { iso3: 'BIH', name: 'Bosnia and Herzegovina', birthsPerYear: 26_000 },
+  { iso3: 'MDA', name: 'Moldova', birthsPerYear: 25_000 },
+  { iso3: 'QAT', name: 'Qatar', birthsPerYear: 25_000 },
+  { iso3: 'DJI', name: 'Djibouti', birthsPerYear: 24_000 },
+  { iso3: 'ALB', name: 'Albania', birthsPerYear: 24_000 },
+  { iso3: 'SLB', name: 'Solomon Islands', birthsPerYear: 22_000 },
+  { iso3: 'LTU', name: 'Lithuania', birthsPerYear: 20_000 },
+  { iso3: 'XKX', name: 'Kosovo', birthsPerYear: 20_000 },
+  { iso3: 'PRI', name: 'Puerto Rico', birthsPerYear: 18_000 },
+  { iso3: 'BHR', name: 'Bahrain', birthsPerYear: 18_000 },
+  { iso3: 'FJI', name: 'Fiji', birthsPerYear: 17_000 },
+  { iso3: 'SVN', name: 'Slovenia', birthsPerYear: 17_000 },
+  { iso3: 'MKD', name: 'North Macedonia', birthsPerYear: 17_000 },
+  { iso3: 'GUY', name: 'Guyana', birthsPerYear: 15_000 },
+  { iso3: 'TTO', name: 'Trinidad and Tobago', birthsPerYear: 14_000 },
+  { iso3: 'LVA', name: 'Latvia', birthsPerYear: 13_000 },
+  { iso3: 'EST', name: 'Estonia', birthsPerYear: 11_000 },
+  { iso3: 'BTN', name: 'Bhutan', birthsPerYear: 10_000 },
+  { iso3: 'CYP', name: 'Cyprus', birthsPerYear: 10_000 },
+  { iso3: 'SUR', name: 'Suriname', birthsPerYear: 10_000 },
+  { iso3: 'ESH', name: 'Western Sahara', birthsPerYear: 10_000 },
+  { iso3: 'VUT', name: 'Vanuatu', birthsPerYear: 9_000 },
+  { iso3: 'BLZ', name: 'Belize', birthsPerYear: 8_000 },
+  { iso3: 'MNE', name: 'Montenegro', birthsPerYear: 7_000 },
+  { iso3: 'LUX', name: 'Luxembourg', birthsPerYear: 6_000 },
+  { iso3: 'BRN', name: 'Brunei', birthsPerYear: 6_000 },
+  { iso3: 'ISL', name: 'Iceland', birthsPerYear: 4_500 },
+  { iso3: 'NCL', name: 'New Caledonia', birthsPerYear: 4_000 },
+  { iso3: 'BHS', name: 'Bahamas', birthsPerYear: 4_000 },
+  { iso3: 'GRL', name: 'Greenland', birthsPerYear: 700 },
+];
+
+// ISO 3166-1 alpha-2 and numeric codes. `isoNumeric` matches the ids of the bundled world-atlas
+// TopoJSON; `name` is the lookup of last resort for override datasets keyed by neither code.
+const ISO_CODES: Record<string, [iso2: string, isoNumeric?: string]> = {
+  IND: ['IN', '356'],
+  CHN: ['CN', '156'],
+  NGA: ['NG', '566'],
+  PAK: ['PK', '586'],
+  COD: ['CD', '180'],
+  IDN: ['ID', '360'],
+  ETH: ['ET', '231'],
+  USA: ['US', '840'],
+  BGD: ['BD', '050'],
+  BRA: ['BR', '076'],
+  TZA: ['TZ', '834'],
+  EGY: ['EG', '818'],
+  MEX: ['MX', '484'],
+  PHL: ['PH', '608'],
+  UGA: ['UG', '800'],
+  AFG: ['AF', '004'],
+  SDN: ['SD', '729'],
+  KEN: ['KE', '404'],
+  AGO: ['AO', '024'],
+  VNM: ['VN', '704'],
+  RUS: ['RU', '643'],
+  NER: ['NE', '562'],
+  MOZ: ['MZ', '508'],
+  IRQ: ['IQ', '368'],
+  ZAF: ['ZA', '710'],
+  TUR: ['TR', '792'],
+  IRN: ['IR', '364'],
+  MDG: ['MG', '450'],
+  CMR: ['CM', '120'],
+  CIV: ['CI', '384'],
+  YEM: ['YE', '887'],
+  MLI: ['ML', '466'],
+  GHA: ['GH', '288'],
+  DZA: ['DZ', '012'],
+  UZB: ['UZ', '860'],
+  MMR: ['MM', '104'],
+  BFA: ['BF', '854'],
+  JPN: ['JP', '392'],
+  SOM: ['SO', '706'],
+  TCD: ['TD', '148'],
+  DEU: ['DE', '276'],
+  FRA: ['FR', '250'],
+  GBR: ['GB', '826'],
+  MAR: ['MA', '504'],
+  MWI: ['MW', '454'],
+  ZMB: ['ZM', '894'],
+  SAU: ['SA', '682'],
+  NPL: ['NP', '524'],
+  GIN: ['GN', '324'],
+  SEN: ['SN', '686'],
+  THA: ['TH', '764'],
+  COL: ['CO', '170'],
+  SYR: ['SY', '760'],
+  PER: ['PE', '604'],
+  ZWE: ['ZW', '716'],
+  VEN: ['VE', '862'],
+  ARG: ['AR', '032'],
+  BEN: ['BJ', '204'],
+  MYS: ['MY', '458'],
+  BDI: ['BI', '108'],
+  SSD: ['SS', '728'],
+  KAZ: ['KZ', '398'],
+  RWA: ['RW', '646'],
+  ITA: ['IT', '380'],
+  GTM: ['GT', '320'],
+  CAN: ['CA', '124'],
+  PRK: ['KP', '408'],
+  KHM: ['KH', '116'],
+  ESP: ['ES', '724'],
+  AUS: ['AU', '036'],
+  HTI: ['HT', '332'],
+  SLE: ['SL', '694'],
+  POL: ['PL', '616'],
+  TGO: ['TG', '768'],
+  CAF: ['CF', '140'],
+  PNG: ['PG', '598'],
+  ECU: ['EC', '218'],
+  BOL: ['BO', '068'],
+  LKA: ['LK', '144'],
+  TJK: ['TJ', '762'],
+  KOR: ['KR', '410'],
+  HND: ['HN', '340'],
+  JOR: ['JO', '400'],
+  DOM: ['DO', '214'],
+  UKR: ['UA', '804'],
+  COG: ['CG', '178'],
+  CHL: ['CL', '152'],
+  ISR: ['IL', '376'],
+  LAO: ['LA', '418'],
+  LBR: ['LR', '430'],
+  NLD: ['NL', '528'],
+  TUN: ['TN', '788'],
+  MRT: ['MR', '478'],
+  ROU: ['RO', '642'],
+  KGZ: ['KG', '417'],
+  PRY: ['PY', '600'],
+  TWN: ['TW', '158'],
+  LBY: ['LY', '434'],
+  PSE: ['PS', '275'],
+  NIC: ['NI', '558'],
+  AZE: ['AZ', '031'],
+  BEL: ['BE', '056'],
+  ERI: ['ER', '232'],
+  TKM: ['TM', '795'],
+  ARE: ['AE', '784'],
+  SWE: ['SE', '752'],
+  CUB: ['CU', '192'],
+  SLV: ['SV', '222'],
+  CZE: ['CZ', '203'],
+  OMN: ['OM', '512'],
+  HUN: ['HU', '348'],
+  PRT: ['PT', '620'],
+  GMB: ['GM', '270'],
+  LBN: ['LB', '422'],
+  CHE: ['CH', '756'],
+  AUT: ['AT', '040'],
+  GAB: ['GA', '266'],
+  GNB: ['GW', '624'],
+  PAN: ['PA', '591'],
+  GRC: ['GR', '300'],
+  NAM: ['NA', '516'],
+  BLR: ['BY', '112'],
+  MNG: ['MN', '496'],
+  BWA: ['BW', '072'],
+  SRB: ['RS', '688'],
+  NZL: ['NZ', '554'],
+  DNK: ['DK', '208'],
+  BGR: ['BG', '100'],
+  LSO: ['LS', '426'],
+  GNQ: ['GQ', '226'],
+  CRI: ['CR', '188'],
+  IRL: ['IE', '372'],
+  NOR: ['NO', '578'],
+  SVK: ['SK', '703'],
+  KWT: ['KW', '414'],
+  GEO: ['GE', '268'],
+  FIN: ['FI', '246'],
+  TLS: ['TL', '626'],
+  ARM: ['AM', '051'],
+  HRV: ['HR', '191'],
+  URY: ['UY', '858'],
+  JAM: ['JM', '388'],
+  SWZ: ['SZ', '748'],
+  BIH: ['BA', '070'],
+  MDA: ['MD', '498'],
+  QAT: ['QA', '634'],
+  DJI: ['DJ', '262'],
+  ALB: ['AL', '008'],
+  SLB: ['SB', '090'],
+  LTU: ['LT', '440'],
+  XKX: ['XK'], // No numeric code has been assigned
+  PRI: ['PR', '630'],
+  BHR: ['BH', '048'],
+  FJI: ['FJ', '242'],
+  SVN: ['SI', '705'],
+  MKD: ['MK', '807'],
+  GUY: ['GY', '328'],
+  TTO: ['TT', '780'],
+  LVA: ['LV', '428'],
+  EST: ['EE', '233'],
+  BTN: ['BT', '064'],
+  CYP: ['CY', '196'],
+  SUR: ['SR', '740'],
+  ESH: ['EH', '732'],
+  VUT: ['VU', '548'],
+  BLZ: ['BZ', '084'],
+  MNE: ['ME', '499'],
+  LUX: ['LU', '442'],
+  BRN: ['BN', '096'],
+  ISL: ['IS', '352'],
+  NCL: ['NC', '540'],
+  BHS: ['BS', '044'],
+  GRL: ['GL', '304'],
+};
+
+const CONTINENTS: Record<Continent, string[]> = {
+  Africa: [
+    'NGA', 'COD', 'ETH', 'TZA', 'EGY', 'UGA', 'SDN', 'KEN', 'AGO', 'NER', 'MOZ', 'ZAF', 'MDG',
+    'CMR', 'CIV', 'MLI', 'GHA', 'DZA', 'BFA', 'SOM', 'TCD', 'MAR', 'MWI', 'ZMB', 'GIN', 'SEN',
+    'ZWE', 'BEN', 'BDI', 'SSD', 'RWA', 'SLE', 'TGO', 'CAF', 'COG', 'LBR', 'TUN', 'MRT', 'LBY',
+    'ERI', 'GMB', 'GAB', 'GNB', 'NAM', 'BWA', 'LSO', 'GNQ', 'SWZ', 'DJI', 'ESH',
+  ],
+  Asia: [
+    'IND', 'CHN', 'PAK', 'IDN', 'BGD', 'PHL', 'AFG', 'VNM', 'IRQ', 'TUR', 'IRN', 'YEM', 'UZB',
+    'MMR', 'JPN', 'SAU', 'NPL', 'THA', 'SYR', 'MYS', 'KAZ', 'PRK', 'KHM', 'LKA', 'TJK', 'KOR',
+    'JOR', 'ISR', 'LAO', 'KGZ', 'TWN', 'PSE', 'AZE', 'TKM', 'ARE', 'OMN', 'LBN', 'MNG', 'KWT',
+    'GEO', 'TLS', 'ARM', 'QAT', 'BHR', 'BTN', 'CYP', 'BRN',
+  ],
+  Europe: [
+    'RUS', 'DEU', 'FRA', 'GBR', 'ITA', 'ESP', 'POL', 'UKR', 'NLD', 'ROU', 'BEL', 'SWE', 'CZE',
+    'HUN', 'PRT', 'CHE', 'AUT', 'GRC', 'BLR', 'SRB', 'DNK', 'BGR', 'IRL', 'NOR', 'SVK', 'FIN',
+    'HRV', 'BIH', 'MDA', 'ALB', 'LTU', 'XKX', 'SVN', 'MKD', 'LVA', 'EST', 'MNE', 'LUX', 'ISL',
+  ],
+  'North America': [
+    'USA', 'MEX', 'GTM', 'CAN', 'HTI', 'HND', 'DOM', 'NIC', 'CUB', 'SLV', 'PAN', 'CRI', 'JAM',
+    'PRI', 'TTO', 'BLZ', 'BHS', 'GRL',
+  ],
+  'South America': [
+    'BRA', 'COL', 'PER', 'VEN', 'ARG', 'ECU', 'BOL', 'CHL', 'PRY', 'URY', 'GUY', 'SUR',
+  ],
+  Oceania: [
+    'AUS', 'PNG', 'NZL', 'SLB', 'FJI', 'VUT', 'NCL',
+  ],
+};
+
+// The zone covering most of the population, used for per-country day boundaries.
+const TIME_ZONES: Record<string, string> = {
+  IND: 'Asia/Kolkata',
+  CHN: 'Asia/Shanghai',
+  NGA: 'Africa/Lagos',
+  PAK: 'Asia/Karachi',
+  COD: 'Africa/Kinshasa',
+  IDN: 'Asia/Jakarta',
+  ETH: 'Africa/Addis_Ababa',
+  USA: 'America/Chicago',
+  BGD: 'Asia/Dhaka',
+  BRA: 'America/Sao_Paulo',
+  TZA: 'Africa/Dar_es_Salaam',
+  EGY: 'Africa/Cairo',
+  MEX: 'America/Mexico_City',
+  PHL: 'Asia/Manila',
+  UGA: 'Africa/Kampala',
+  AFG: 'Asia/Kabul',
+  SDN: 'Africa/Khartoum',
+  KEN: 'Africa/Nairobi',
+  AGO: 'Africa/Luanda',
+  VNM: 'Asia/Ho_Chi_Minh',
+  RUS: 'Europe/Moscow',
+  NER: 'Africa/Niamey',
+  MOZ: 'Africa/Maputo',
+  IRQ: 'Asia/Baghdad',
+  ZAF: 'Africa/Johannesburg',
+  TUR: 'Europe/Istanbul',
+  IRN: 'Asia/Tehran',
+  MDG: 'Indian/Antananarivo',
+  CMR: 'Africa/Douala',
+  CIV: 'Africa/Abidjan',
+  YEM: 'Asia/Aden',
+  MLI: 'Africa/Bamako',
+  GHA: 'Africa/Accra',
+  DZA: 'Africa/Algiers',
+  UZB: 'Asia/Tashkent',
+  MMR: 'Asia/Yangon',
+  BFA: 'Africa/Ouagadougou',
+  JPN: 'Asia/Tokyo',
+  SOM: 'Africa/Mogadishu',
+  TCD: 'Africa/Ndjamena',
+  DEU: 'Europe/Berlin',
+  FRA: 'Europe/Paris',
+  GBR: 'Europe/London',
+  MAR: 'Africa/Casablanca',
+  MWI: 'Africa/Blantyre',
+  ZMB: 'Africa/Lusaka',
+  SAU: 'Asia/Riyadh',
+  NPL: 'Asia/Kathmandu',
+  GIN: 'Africa/Conakry',
+  SEN: 'Africa/Dakar',
+  THA: 'Asia/Bangkok',
+  COL: 'America/Bogota',
+  SYR: 'Asia/Damascus',
+  PER: 'America/Lima',
+  ZWE: 'Africa/Harare',
+  VEN: 'America/Caracas',
+  ARG: 'America/Argentina/Buenos_Aires',
+  BEN: 'Africa/Porto-Novo',
+  MYS: 'Asia/Kuala_Lumpur',
+  BDI: 'Africa/Bujumbura',
+  SSD: 'Africa/Juba',
+  KAZ: 'Asia/Almaty',
+  RWA: 'Africa/Kigali',
+  ITA: 'Europe/Rome',
+  GTM: 'America/Guatemala',
+  CAN: 'America/Toronto',
+  PRK: 'Asia/Pyongyang',
+  KHM: 'Asia/Phnom_Penh',
+  ESP: 'Europe/Madrid',
+  AUS: 'Australia/Sydney',
+  HTI: 'America/Port-au-Prince',
+  SLE: 'Africa/Freetown',
+  POL: 'Europe/Warsaw',
+  TGO: 'Africa/Lome',
+  CAF: 'Africa/Bangui',
+  PNG: 'Pacific/Port_Moresby',
+  ECU: 'America/Guayaquil',
+  BOL: 'America/La_Paz',
+  LKA: 'Asia/Colombo',
+  TJK: 'Asia/Dushanbe',
+  KOR: 'Asia/Seoul',
+  HND: 'America/Tegucigalpa',
+  JOR: 'Asia/Amman',
+  DOM: 'America/Santo_Domingo',
+  UKR: 'Europe/Kyiv',
+  COG: 'Africa/Brazzaville',
+  CHL: 'America/Santiago',
+  ISR: 'Asia/Jerusalem',
+  LAO: 'Asia/Vientiane',
+  LBR: 'Africa/Monrovia',
+  NLD: 'Europe/Amsterdam',
+  TUN: 'Africa/Tunis',
+  MRT: 'Africa/Nouakchott',
+  ROU: 'Europe/Bucharest',
+  KGZ: 'Asia/Bishkek',
+  PRY: 'America/Asuncion',
+  TWN: 'Asia/Taipei',
+  LBY: 'Africa/Tripoli',
+  PSE: 'Asia/Gaza',
+  NIC: 'America/Managua',
+  AZE: 'Asia/Baku',
+  BEL: 'Europe/Brussels',
+  ERI: 'Africa/Asmara',
+  TKM: 'Asia/Ashgabat',
+  ARE: 'Asia/Dubai',
+  SWE: 'Europe/Stockholm',
+  CUB: 'America/Havana',
+  SLV: 'America/El_Salvador',
+  CZE: 'Europe/Prague',
+  OMN: 'Asia/Muscat',
+  HUN: 'Europe/Budapest',
+  PRT: 'Europe/Lisbon',
+  GMB: 'Africa/Banjul',
+  LBN: 'Asia/Beirut',
+  CHE: 'Europe/Zurich',
+  AUT: 'Europe/Vienna',
+  GAB: 'Africa/Libreville',
+  GNB: 'Africa/Bissau',
+  PAN: 'America/Panama',
+  GRC: 'Europe/Athens',
+  NAM: 'Africa/Windhoek',
+  BLR: 'Europe/Minsk',
+  MNG: 'Asia/Ulaanbaatar',
+  BWA: 'Africa/Gaborone',
+  SRB: 'Europe/Belgrade',
+  NZL: 'Pacific/Auckland',
+  DNK: 'Europe/Copenhagen',
+  BGR: 'Europe/Sofia',
+  LSO: 'Africa/Maseru',
+  GNQ: 'Africa/Malabo',
+  CRI: 'America/Costa_Rica',
+  IRL: 'Europe/Dublin',
+  NOR: 'Europe/Oslo',
+  SVK: 'Europe/Bratislava',
+  KWT: 'Asia/Kuwait',
+  GEO: 'Asia/Tbilisi',
+  FIN: 'Europe/Helsinki',
+  TLS: 'Asia/Dili',
+  ARM: 'Asia/Yerevan',
+  HRV: 'Europe/Zagreb',
+  URY: 'America/Montevideo',
+  JAM: 'America/Jamaica',
+  SWZ: 'Africa/Mbabane',
+  BIH: 'Europe/Sarajevo',
+  MDA: 'Europe/Chisinau',
+  QAT: 'Asia/Qatar',
+  DJI: 'Africa/Djibouti',
+  ALB: 'Europe/Tirane',
+  SLB: 'Pacific/Guadalcanal',
+  LTU: 'Europe/Vilnius',
+  XKX: 'Europe/Belgrade',
+  PRI: 'America/Puerto_Rico',
+  BHR: 'Asia/Bahrain',
+  FJI: 'Pacific/Fiji',
+  SVN: 'Europe/Ljubljana',
+  MKD: 'Europe/Skopje',
+  GUY: 'America/Guyana',
+  TTO: 'America/Port_of_Spain',
+  LVA: 'Europe/Riga',
+  EST: 'Europe/Tallinn',
+  BTN: 'Asia/Thimphu',
+  CYP: 'Asia/Nicosia',
+  SUR: 'America/Paramaribo',
+  ESH: 'Africa/El_Aaiun',
+  VUT: 'Pacific/Efate',
+  BLZ: 'America/Belize',
+  MNE: 'Europe/Podgorica',
+  LUX: 'Europe/Luxembourg',
+  BRN: 'Asia/Brunei',
+  ISL: 'Atlantic/Reykjavik',
+  NCL: 'Pacific/Noumea',
+  BHS: 'America/Nassau',
+  GRL: 'America/Nuuk',
+};
+
+const CONTINENT_BY_ISO3 = new Map(
+  Object.entries(CONTINENTS).flatMap(([continent, codes]) => codes.map(iso3 => [iso3, continent as Continent]))
+);
+
+export const COUNTRY_BIRTH_RATES: CountryBirthRate[] = BIRTHS_PER_YEAR.map(({ iso3, name, birthsPerYear }) => {
+  const [iso2, isoNumeric] = ISO_CODES[iso3];
+  return {
+    iso3,
+    iso2,
+    ...(isoNumeric && { isoNumeric }),
+    name,
+    birthsPerYear,
+    continent: CONTINENT_BY_ISO3.get(iso3)!,
+    timeZone: TIME_ZONES[iso3],
+  };
+});
+
+export const SECONDS_PER_YEAR = 365.25 * 86400;
+
+export const BIRTH_RATES_YEAR = 2023;
+export const BIRTH_RATES_SOURCE = 'UN World Population Prospects';
+
+export const COUNTRY_BY_ISO3 = new Map(COUNTRY_BIRTH_RATES.map(c => [c.iso3, c]));
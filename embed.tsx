@@ -0,0 +1,154 @@
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import EmbedView, { EMBED_MODES, EmbedMode } from './components/EmbedView';
+import { THEMES } from './constants';
+import { AppConfig, BirthRateDataset, ConfigWarning } from './types';
+import { createStaticProvider } from './utils/birthRates';
+import { BirthSimulation, createBirthSimulation } from './utils/birthSimulation';
+import { resolveConfig } from './utils/config';
+import { createI18n } from './utils/i18n';
+import { createPlaybackClock } from './utils/playbackClock';
+import styles from './embed.css?inline';
+
+export const ELEMENT_NAME = 'birth-counter';
+
+const FONTS_URL = 'https://fonts.googleapis.com/css2?family=Anton&family=Bebas+Neue&family=Inter:wght@400;700;900&family=JetBrains+Mono:wght@500;700;800&family=Montserrat:wght@400;700;900&family=Playfair+Display:wght@700&display=swap';
+
+// Attributes passed straight through to the app configuration
+const CONFIG_ATTRIBUTES = ['theme', 'locale', 'focus'] as const;
+
+// Widths of the named sizes in CSS pixels; the height follows the mode's aspect ratio
+const SIZE_PRESETS: Record<string, number> = { small: 320, medium: 640, large: 960 };
+const ASPECT_RATIOS: Record<EmbedMode, string> = { counter: '4 / 1', globe: '1 / 1', full: '16 / 9' };
+
+// Settings that suit a box on someone else's page rather than a dedicated screen
+const EMBED_DEFAULTS: Partial<AppConfig> = {
+  stats: false,
+  feed: 0,
+  capture: false,
+  timeTravel: false,
+  debug: false,
+  maxWidth: 1920,
+  maxHeight: 1920,
+};
+
+// --- Shared state ---
+
+// Every element on the page runs off one clock, and elements with the same day boundary share
+// one simulation, so side-by-side counters always agree.
+const clock = createPlaybackClock();
+const simulations = new Map<string, BirthSimulation>();
+let dataset: Promise<BirthRateDataset> | null = null;
+
+const loadDataset = () => {
+  dataset ??= createStaticProvider().load().then(result => result.dataset);
+  return dataset;
+};
+
+const simulationFor = (config: AppConfig, data: BirthRateDataset) => {
+  const key = `${JSON.stringify(config.day)}|${config.diurnal}`;
+  let simulation = simulations.get(key);
+  if (!simulation) {
+    simulation = createBirthSimulation({ rates: data.rates, dayMode: config.day, clock, diurnal: config.diurnal });
+    simulations.set(key, simulation);
+  }
+  return simulation;
+};
+
+// Web fonts declared inside a shadow root are not loaded, so the stylesheet goes in the page head
+const loadFonts = () => {
+  if (document.querySelector(`link[href="${FONTS_URL}"]`)) return;
+  const link = document.createElement('link');
+  link.rel = 'stylesheet';
+  link.href = FONTS_URL;
+  document.head.appendChild(link);
+};
+
+const parseMode = (raw: string | null): EmbedMode => {
+  if (raw === null) return 'full';
+  const mode = EMBED_MODES.find(m => m === raw.trim());
+  if (!mode) console.warn(`<${ELEMENT_NAME}> mode: expected one of ${EMBED_MODES.join(', ')}; using full`);
+  return mode ?? 'full';
+};
+
+// `small`, `medium`, `large`, `WIDTHxHEIGHT` in pixels, or `fill` to take the host's own size.
+// Without it the element spans the width of its container.
+const sizeStyle = (raw: string | null, mode: EmbedMode): Partial<CSSStyleDeclaration> => {
+  const text = raw?.trim().toLowerCase() ?? '';
+  if (text === 'fill') return { width: '100%', height: '100%', aspectRatio: '' };
+  const match = /^(\d+)\s*x\s*(\d+)$/.exec(text);
+  if (match) return { width: `${match[1]}px`, height: `${match[2]}px`, aspectRatio: '' };
+  if (text && !SIZE_PRESETS[text]) {
+    console.warn(`<${ELEMENT_NAME}> size: expected small, medium, large, fill or WIDTHxHEIGHT`);
+  }
+  const width = SIZE_PRESETS[text];
+  return { width: width ? `${width}px` : '100%', height: 'auto', aspectRatio: ASPECT_RATIOS[mode] };
+};
+
+/**
+ * `<birth-counter mode="counter|globe|full" theme locale size focus>`. Renders into a shadow root
+ * with its own compiled stylesheet, so neither the page's CSS nor a Tailwind CDN build is needed.
+ */
+// The element has no warning banner, so settings it rejects and fallbacks go to the page's console
+const reportWarning = (w: ConfigWarning) => console.warn(`<${ELEMENT_NAME}> ${w.key}: ${w.message}`);
+
+class BirthCounterElement extends HTMLElement {
+  static observedAttributes = ['mode', 'size', ...CONFIG_ATTRIBUTES];
+
+  private container: HTMLDivElement;
+  private root: Root | null = null;
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = styles;
+    this.container = document.createElement('div');
+    shadow.append(style, this.container);
+  }
+
+  connectedCallback() {
+    loadFonts();
+    this.root ??= createRoot(this.container);
+    this.update();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    if (this.root) this.update();
+  }
+
+  private async update() {
+    const mode = parseMode(this.getAttribute('mode'));
+    Object.assign(this.container.style, sizeStyle(this.getAttribute('size'), mode));
+
+    const values = Object.fromEntries(
+      CONFIG_ATTRIBUTES.filter(name => this.hasAttribute(name)).map(name => [name, this.getAttribute(name)])
+    );
+    const resolved = resolveConfig([{ source: 'attribute', values }]);
+    resolved.warnings.forEach(reportWarning);
+    const config: AppConfig = { ...resolved.config, ...EMBED_DEFAULTS, hud: mode === 'globe' ? 'off' : 'minimal' };
+
+    const data = await loadDataset();
+    if (!this.root) return;
+    this.root.render(
+      <EmbedView
+        mode={mode}
+        simulation={simulationFor(config, data)}
+        config={config}
+        dataset={data}
+        i18n={createI18n(config.locale, config.digits)}
+        theme={THEMES[config.theme]}
+        onWarning={reportWarning}
+      />
+    );
+  }
+}
+
+if (!customElements.get(ELEMENT_NAME)) customElements.define(ELEMENT_NAME, BirthCounterElement);
+
+export { BirthCounterElement };
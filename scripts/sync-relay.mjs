@@ -0,0 +1,141 @@
+// Minimal WebSocket relay for synchronised screens on different machines. Every text message
+// is forwarded to the other clients connected on the same path, which names the room.
+//
+//   node scripts/sync-relay.mjs [port]
+//
+// Then open each screen with ?sync=on&syncUrl=ws://<relay-host>:<port>. No dependencies; it
+// speaks just enough of RFC 6455 for browsers on a local network.
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = Number(process.argv[2] || process.env.PORT || 8787);
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 0xffff;
+const rooms = new Map();
+
+const frame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.from([0x80 | opcode, length])
+    : Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff]);
+  return Buffer.concat([header, payload]);
+};
+
+// Close codes from RFC 6455 section 7.4.1
+const PROTOCOL_ERROR = 1002;
+const UNSUPPORTED_DATA = 1003;
+const MESSAGE_TOO_BIG = 1009;
+
+// A client that broke the protocol; the relay answers with a close frame carrying `code`
+class CloseError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// Yields complete client frames from `buffer` and returns the unconsumed rest
+const readFrames = (buffer, onFrame) => {
+  while (buffer.length >= 2) {
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (length > MAX_PAYLOAD) throw new CloseError(MESSAGE_TOO_BIG, 'frame too large');
+    // Browsers always mask what they send
+    if (!(buffer[1] & 0x80)) throw new CloseError(PROTOCOL_ERROR, 'unmasked frame');
+    if (buffer.length < offset + 4 + length) break;
+    const mask = buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    onFrame(fin, opcode, payload);
+    buffer = buffer.subarray(offset + 4 + length);
+  }
+  return buffer;
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket relay\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) return socket.destroy();
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+  const room = req.url || '/';
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  const members = rooms.get(room);
+  members.add(socket);
+
+  // Runs on both 'error' and the 'close' after it, so only the first call counts. By the second,
+  // an emptied room may have been opened again under the same path, and that one must stay.
+  let left = false;
+  const leave = () => {
+    if (left) return;
+    left = true;
+    members.delete(socket);
+    if (!members.size && rooms.get(room) === members) rooms.delete(room);
+  };
+
+  let pending = Buffer.alloc(0);
+  // The fragments of a text message still missing its final frame
+  let fragments = null;
+  let fragmentBytes = 0;
+  let closing = false;
+  const close = payload => {
+    closing = true;
+    socket.end(frame(0x8, payload));
+  };
+
+  // Control frames may arrive between the fragments of a text message, which is only relayed
+  // once its final fragment is in
+  const onFrame = (fin, opcode, payload) => {
+    if (closing) return;
+    if (opcode & 0x8) {
+      if (!fin || payload.length > 125) throw new CloseError(PROTOCOL_ERROR, 'fragmented or oversized control frame');
+      if (opcode === 0x9) socket.write(frame(0xa, payload));
+      else if (opcode === 0x8) close(Buffer.alloc(0));
+      return;
+    }
+    if (opcode === 0x0) {
+      if (!fragments) throw new CloseError(PROTOCOL_ERROR, 'continuation without a message');
+    } else {
+      if (fragments) throw new CloseError(PROTOCOL_ERROR, 'new message before the last one finished');
+      if (opcode !== 0x1) throw new CloseError(UNSUPPORTED_DATA, 'only text messages are relayed');
+      fragments = [];
+      fragmentBytes = 0;
+    }
+    fragments.push(payload);
+    fragmentBytes += payload.length;
+    if (fragmentBytes > MAX_PAYLOAD) throw new CloseError(MESSAGE_TOO_BIG, 'message too large');
+    if (!fin) return;
+    const message = Buffer.concat(fragments);
+    fragments = null;
+    members.forEach(peer => { if (peer !== socket) peer.write(frame(0x1, message)); });
+  };
+
+  socket.on('data', chunk => {
+    if (closing) return;
+    try {
+      pending = readFrames(Buffer.concat([pending, chunk]), onFrame);
+    } catch (err) {
+      if (err instanceof CloseError) close(Buffer.from([err.code >> 8, err.code & 0xff]));
+      else socket.destroy();
+    }
+  });
+  socket.on('close', leave);
+  socket.on('error', leave);
+});
+
+server.listen(PORT, () => console.log(`Sync relay listening on ws://0.0.0.0:${PORT}`));
@@ -0,0 +1,249 @@
+export type Continent = 'Africa' | 'Asia' | 'Europe' | 'North America' | 'South America' | 'Oceania';
+
+export interface CountryBirthRate {
+  iso3: string;
+  iso2: string;
+  isoNumeric?: string;
+  name: string;
+  birthsPerYear: number;
+  continent: Continent;
+  timeZone: string;
+}
+
+// Where "today" starts: a single global boundary (UTC, the viewer's zone or a named IANA zone),
+// or each country counting from its own local midnight.
+export type DayBoundaryMode =
+  | { kind: 'utc' }
+  | { kind: 'local' }
+  | { kind: 'timezone'; timeZone: string }
+  | { kind: 'per-country' };
+
+export interface DayProgress {
+  pct: number;
+  /** Wall-clock minutes since midnight shown on the progress marker. */
+  minuteOfDay: number;
+  /** Length of the day the percentage is measured against, in milliseconds. */
+  dayMs: number;
+}
+
+export interface DayWindows {
+  starts: number[];
+  ends: number[];
+  validUntil: number;
+}
+
+/** What a simulation counts. Births drive the day's progress; the rest are shares of them. */
+export type MetricId = 'births' | 'preterm' | 'twins' | 'maternal-deaths' | 'postnatal-care';
+
+/** How extra metrics share the HUD with births: one counter taking turns, or a row of them. */
+export type MetricLayout = 'rotate' | 'side';
+
+/** Celebrate each time today's count of `metric` passes a multiple of `every`. */
+export interface MilestoneRule {
+  metric: MetricId;
+  every: number;
+  /** An ISO3 code, `focus` for the focused country, or null for the whole world. */
+  scope: string | null;
+}
+
+export interface Milestone {
+  /** The same on every screen for the same milestone, so receivers can drop repeats. */
+  id: string;
+  metric: MetricId;
+  /** The country counted, or null for the whole world. */
+  iso3: string | null;
+  /** The round number passed. */
+  count: number;
+  /** Simulated instant it was passed. */
+  time: number;
+  /** Calendar day the count belongs to, as `YYYY-MM-DD`. */
+  day: string;
+}
+
+export interface BirthEvent {
+  id: string;
+  time: number;
+  iso3: string;
+  metric: MetricId;
+}
+
+export interface SimulationUpdate {
+  time: number;
+  births: number;
+  progress: DayProgress;
+  events: BirthEvent[];
+  /** True for the first update after the clock jumped; `events` is empty and history is stale. */
+  resync: boolean;
+}
+
+export interface WorldGeometry {
+  collection: { type: 'FeatureCollection'; features: any[] };
+  index: Map<string, any>;
+}
+
+export type GeoStatus = 'loading' | 'ready' | 'unavailable';
+
+export type FeedPosition = 'bottom-left' | 'bottom-right' | 'top-right';
+
+export interface BirthStatsSummary {
+  lastMinute: number;
+  lastHour: number;
+  leaders: { iso3: string; name: string; births: number }[];
+  continents: { continent: Continent; births: number }[];
+  perMinute: number[];
+}
+
+export type HudMode = 'full' | 'minimal' | 'off';
+
+/** How a birth shows on the globe: a ring or dot at its place, or the whole country lit. */
+export type MarkerStyle = 'ripple' | 'pulse' | 'country';
+
+/** This screen's place in a grid of equal screens that together show one globe. */
+export interface WallTile {
+  cols: number;
+  rows: number;
+  col: number;
+  row: number;
+}
+
+/** `auto` follows the system's prefers-reduced-motion setting. */
+export type MotionSetting = 'auto' | 'full' | 'reduced';
+
+export type LocaleCode = 'en' | 'hi' | 'es' | 'fr' | 'ar' | 'pt';
+
+export type DigitStyle = 'auto' | 'latin' | 'native';
+
+export type ThemeName = 'brand' | 'high-contrast' | 'daylight' | 'partner';
+
+export interface ThemeColors {
+  BACKGROUND: string;
+  STAR: string;
+  LAND_BASE: string;
+  LAND_BORDER: string;
+  OCEAN_DEEP: string;
+  OCEAN_BRIGHT: string;
+  RIM_SHADOW: string;
+  YELLOW_VIBRANT: string;
+  YELLOW_PEAK: string;
+  GOLD: string;
+  ATMOSPHERE: string;
+  ATMOSPHERE_FADE: string;
+  SPECULAR: string;
+  HEADER_PURPLE: string;
+  PACIFIER_HALO: string;
+  PACIFIER_GLOW: string;
+  PACIFIER_CORE: string;
+  COMET_HEAD: string;
+  COMET_TRAIL: string;
+  COMET_GLOW: string;
+  GRATICULE: string;
+  NIGHT: string;
+  CITY_LIGHTS: string;
+  COUNTER_GLOW: string;
+  PROGRESS_GLOW: string;
+  PROGRESS_TRACK: string;
+  OVERLAY: string;
+  PANEL: string;
+  PANEL_BORDER: string;
+  TEXT: string;
+}
+
+export interface Theme {
+  name: ThemeName;
+  colors: ThemeColors;
+  fonts: { brand: string; counter: string; ui: string };
+  stars: boolean;
+  /** How the effects canvas composites over the globe; `screen` only reads on dark backgrounds. */
+  fxBlend: 'screen' | 'normal';
+}
+
+export interface AppConfig {
+  rotation: number;
+  tilt: number;
+  maxWidth: number;
+  maxHeight: number;
+  scale: number;
+  stars: number;
+  pacifiers: number;
+  comets: number;
+  fx: boolean;
+  hud: HudMode;
+  focus: string | null;
+  day: DayBoundaryMode;
+  geo: string | null;
+  feed: number;
+  feedPos: FeedPosition;
+  stats: boolean;
+  brand: string | null;
+  title: string | null;
+  locale: string | null;
+  digits: DigitStyle;
+  theme: ThemeName;
+  partner: string | null;
+  offscreen: boolean;
+  adaptive: boolean;
+  debug: boolean;
+  terminator: boolean;
+  cityLights: boolean;
+  diurnal: boolean;
+  timeTravel: boolean;
+  rates: BirthRateProviderKind;
+  ratesUrl: string | null;
+  /** Year to take from a multi-year dataset; 0 for the latest. */
+  ratesYear: number;
+  ratesCredit: string | null;
+  capture: boolean;
+  recordSeconds: number;
+  renderSize: { width: number; height: number };
+  renderSeconds: number;
+  renderFps: number;
+  motion: MotionSetting;
+  accessible: boolean;
+  /** Seconds between screen-reader announcements of the count; 0 for none. */
+  announce: number;
+  markers: MarkerStyle;
+  arcs: boolean;
+  sync: boolean;
+  syncUrl: string | null;
+  syncRoom: string | null;
+  wall: WallTile | null;
+  /** Counted alongside births, in HUD order. */
+  metrics: MetricId[];
+  metricLayout: MetricLayout;
+  metricSeconds: number;
+  milestones: MilestoneRule[];
+  /** Receives each milestone as a JSON POST. */
+  milestoneUrl: string | null;
+  /** Rows in the log of recent milestones; 0 hides it. */
+  moments: number;
+}
+
+export interface RenderStats {
+  fps: number;
+  frameMs: number;
+  /** Main-thread work per frame, including the globe draw when it is not offscreen. */
+  costMs: number;
+  /** Globe layer draw time, wherever it runs. */
+  drawMs: number;
+  level: number;
+  scale: number;
+  offscreen: boolean;
+}
+
+export type BirthRateProviderKind = 'static' | 'file' | 'http';
+
+export interface BirthRateDataset {
+  rates: CountryBirthRate[];
+  year: number;
+  /** Attribution shown in the HUD footer. */
+  source: string;
+  provider: BirthRateProviderKind;
+}
+
+export type ConfigSource = 'file' | 'localStorage' | 'query' | 'rates' | 'attribute' | 'globe';
+
+export interface ConfigWarning {
+  source: ConfigSource;
+  key: string;
+  message: string;
+}
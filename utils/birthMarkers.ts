@@ -0,0 +1,160 @@
+import * as d3 from 'd3';
+import { BirthEvent } from '../types';
+import { hashUnit } from './birthSimulation';
+import type { BirthMarker, GlobeGeometry } from './globeRenderer';
+import { METRIC_BY_ID } from './metrics';
+
+// A hand-picked list of big cities as [lon, lat, population in millions] for the countries with
+// the most births, plus any country too small to have a shape on the bundled map. A share of each
+// listed country's births is placed around its cities, weighted by their size, and the rest
+// anywhere on its land. This is not population weighting: no population grid is shipped, and
+// births in every country missing here are spread evenly over its area.
+const CITY_ANCHORS: Record<string, [number, number, number][]> = {
+  IND: [[72.88, 19.08, 21], [77.21, 28.61, 32], [88.36, 22.57, 15], [77.59, 12.97, 13], [80.27, 13.08, 11], [78.49, 17.39, 10], [72.57, 23.02, 8], [80.95, 26.85, 4], [75.79, 26.91, 4], [85.14, 25.59, 2.5]],
+  CHN: [[121.47, 31.23, 29], [116.41, 39.9, 21], [113.26, 23.13, 19], [114.06, 22.54, 17], [106.55, 29.56, 17], [117.2, 39.08, 14], [104.07, 30.67, 9.5], [114.31, 30.59, 8.6], [108.94, 34.34, 8.5]],
+  NGA: [[3.38, 6.52, 15], [8.52, 12, 4.3], [3.9, 7.38, 3.7], [7.49, 9.06, 3.8], [7.01, 4.82, 3.5], [5.62, 6.34, 1.8]],
+  PAK: [[67.01, 24.86, 17], [74.36, 31.52, 13], [73.08, 31.42, 3.6], [73.05, 33.68, 2.2], [71.58, 34.01, 2.3], [68.37, 25.4, 1.9]],
+  COD: [[15.27, -4.44, 17], [27.48, -11.66, 2.6], [23.6, -6.14, 2.8], [25.19, 0.52, 1.4], [28.86, -2.49, 1.3]],
+  IDN: [[106.85, -6.21, 11], [112.75, -7.25, 3], [107.62, -6.91, 2.7], [98.67, 3.59, 2.5], [110.42, -6.99, 1.7], [119.43, -5.15, 1.6]],
+  ETH: [[38.75, 9.03, 5.5], [39.47, 13.5, 0.6], [38.48, 7.05, 0.5], [37.39, 11.59, 0.5], [41.86, 9.6, 0.5]],
+  USA: [[-74.01, 40.71, 19], [-118.24, 34.05, 13], [-87.63, 41.88, 9.5], [-95.37, 29.76, 7], [-96.8, 32.78, 7.6], [-80.19, 25.76, 6.1], [-77.04, 38.91, 6.3], [-75.17, 39.95, 6.2], [-84.39, 33.75, 6.1], [-112.07, 33.45, 4.9], [-122.42, 37.77, 4.7]],
+  BGD: [[90.41, 23.81, 23], [91.78, 22.36, 5.4], [89.56, 22.82, 1], [88.6, 24.37, 0.9]],
+  BRA: [[-46.63, -23.55, 22], [-43.17, -22.91, 13.6], [-43.94, -19.92, 6], [-47.88, -15.79, 4.8], [-38.5, -12.97, 4], [-38.54, -3.73, 4.1], [-34.88, -8.05, 4.2], [-51.23, -30.03, 4.2], [-60.02, -3.12, 2.3]],
+  TZA: [[39.28, -6.79, 7.4], [32.9, -2.52, 1.2], [36.68, -3.37, 0.6], [35.74, -6.16, 0.5]],
+  EGY: [[31.24, 30.04, 22], [29.92, 31.2, 5.6], [32.3, 31.26, 0.8], [31.38, 31.04, 0.6]],
+  MEX: [[-99.13, 19.43, 22], [-103.35, 20.67, 5.3], [-100.32, 25.69, 5.3], [-98.2, 19.04, 3.3], [-117.04, 32.51, 2.2]],
+  PHL: [[120.98, 14.6, 14.7], [123.89, 10.32, 3], [125.61, 7.19, 1.9]],
+  RUS: [[37.62, 55.76, 17], [30.32, 59.94, 6.3], [82.92, 55.03, 1.6], [60.6, 56.84, 1.5], [49.11, 55.8, 1.3]],
+  BHR: [[50.58, 26.22, 1]],
+};
+
+// Share of a listed country's births placed around its cities
+const URBAN_SHARE = 0.6;
+// Spread of births around a city centre, in degrees
+const CITY_SPREAD = 0.35;
+// Distinct points per country; births pick among them, so placing one costs a lookup
+const POOL_SIZE = 64;
+const MAX_TRIES = 40;
+const PLACEMENT_SEED = 0x6b1e7;
+// Markers beyond this many are dropped oldest first; a fast replay would otherwise queue thousands
+export const MAX_MARKERS = 240;
+
+const hashString = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+};
+
+/**
+ * Picks where each birth happened: a point inside its country, weighted towards its listed cities
+ * where it has any and otherwise uniform by area. The same birth always lands on the same point,
+ * on screen and in rendered clips.
+ */
+export const createBirthPlacer = (geometry: GlobeGeometry) => {
+  const featureOf = new Map<string, any>();
+  geometry.codes.forEach((code, i) => { if (code) featureOf.set(code, geometry.collection.features[i]); });
+  const pools = new Map<string, [number, number][]>();
+
+  const buildPool = (iso3: string, stream: number): [number, number][] => {
+    const feature = featureOf.get(iso3);
+    const centres = CITY_ANCHORS[iso3];
+    if (!feature && !centres) return [];
+    let draw = 0;
+    const next = () => hashUnit(PLACEMENT_SEED, stream, draw++);
+    const inside = (p: [number, number]) => !feature || d3.geoContains(feature, p);
+
+    // Uniform by area within the feature's bounds, which may wrap the antimeridian
+    const [[west, south], [east, north]] = feature ? d3.geoBounds(feature) : [[0, 0], [0, 0]];
+    const span = east >= west ? east - west : east - west + 360;
+    const [sinS, sinN] = [Math.sin(south * Math.PI / 180), Math.sin(north * Math.PI / 180)];
+    const onLand = (): [number, number] => {
+      for (let i = 0; i < MAX_TRIES; i++) {
+        const lon = ((west + next() * span + 540) % 360) - 180;
+        const lat = Math.asin(sinS + next() * (sinN - sinS)) * 180 / Math.PI;
+        if (inside([lon, lat])) return [lon, lat];
+      }
+      return feature.centroid;
+    };
+
+    const total = centres ? d3.sum(centres, c => c[2]) : 0;
+    const nearCity = (): [number, number] => {
+      let pick = next() * total;
+      const centre = centres!.find(c => (pick -= c[2]) < 0) ?? centres![0];
+      for (let i = 0; i < MAX_TRIES / 4; i++) {
+        // The sum of two uniforms gives a soft falloff from the centre
+        const p: [number, number] = [
+          centre[0] + (next() + next() - 1) * CITY_SPREAD * 2,
+          centre[1] + (next() + next() - 1) * CITY_SPREAD * 2,
+        ];
+        if (inside(p)) return p;
+      }
+      return [centre[0], centre[1]];
+    };
+
+    return Array.from({ length: POOL_SIZE }, () => {
+      if (!feature) return nearCity();
+      return centres && next() < URBAN_SHARE ? nearCity() : onLand();
+    });
+  };
+
+  return (event: BirthEvent): [number, number] | null => {
+    let pool = pools.get(event.iso3);
+    if (!pool) {
+      pool = buildPool(event.iso3, hashString(event.iso3));
+      pools.set(event.iso3, pool);
+    }
+    if (!pool.length) return null;
+    return pool[Math.floor(hashUnit(PLACEMENT_SEED, 0, hashString(event.id)) * pool.length)];
+  };
+};
+
+export interface MarkerTrail {
+  /** Births added before the map loads are marked from then on, once they can be placed. */
+  setGeometry(geometry: GlobeGeometry | null): void;
+  add(events: BirthEvent[]): void;
+  clear(): void;
+  /**
+   * Markers still showing at simulated time `t` when each lasts `span`, with their progress;
+   * expired ones are dropped. `fixedProgress` holds every marker at one stage of its animation.
+   */
+  active(t: number, span: number, fixedProgress?: number): BirthMarker[];
+}
+
+/** The births and other events currently marked on the globe, shared by the live map and rendered clips. */
+export const createMarkerTrail = (limit = MAX_MARKERS): MarkerTrail => {
+  const births = new Map<string, { event: BirthEvent; point: [number, number] | null }>();
+  let place: ((event: BirthEvent) => [number, number] | null) | null = null;
+
+  return {
+    setGeometry: geometry => {
+      place = geometry ? createBirthPlacer(geometry) : null;
+      births.forEach(entry => { entry.point = place?.(entry.event) ?? null; });
+    },
+    add: events => {
+      events.forEach(event => births.set(event.id, { event, point: place?.(event) ?? null }));
+      for (const id of births.keys()) {
+        if (births.size <= limit) break;
+        births.delete(id);
+      }
+    },
+    clear: () => births.clear(),
+    active: (t, span, fixedProgress) => {
+      const markers: BirthMarker[] = [];
+      births.forEach(({ event, point }, id) => {
+        const progress = (t - event.time) / span;
+        if (progress >= 1) births.delete(id);
+        else {
+          const { marker, color } = METRIC_BY_ID.get(event.metric)!;
+          markers.push({
+            iso3: event.iso3,
+            point,
+            progress: fixedProgress ?? Math.max(0, progress),
+            style: marker ?? undefined,
+            color: color ?? undefined,
+          });
+        }
+      });
+      return markers;
+    },
+  };
+};
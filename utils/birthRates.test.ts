@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { COUNTRY_BIRTH_RATES } from '../constants';
+import { buildBirthRateDataset, createHttpProvider, parseBirthRateTable } from './birthRates';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// One row per bundled country for `year`, at `factor` times its bundled figure
+const tableFor = (year: number, factor = 2, countries = COUNTRY_BIRTH_RATES) =>
+  countries.map(c => ({ iso3: c.iso3, year, births: c.birthsPerYear * factor }));
+
+const csvFor = (rows: { iso3: string; year: number; births: number }[]) =>
+  ['iso3,year,births', ...rows.map(r => `${r.iso3},${r.year},${r.births}`)].join('\n');
+
+describe('birth-rate table parsing', () => {
+  it('reads CSV with quoted cells and UN WPP column names', () => {
+    const { rows, source, issues } = parseBirthRateTable([
+      'ISO3_code,"Location, name",Time,births_thousands',
+      'IND,"India, Republic of",2023,23200.5',
+      'nga,Nigeria,2023,7600',
+    ].join('\r\n'));
+    expect(rows).toEqual([
+      { iso3: 'IND', year: 2023, births: 23200500 },
+      { iso3: 'NGA', year: 2023, births: 7600000 },
+    ]);
+    expect(source).toBeNull();
+    expect(issues).toEqual([]);
+  });
+
+  it('reads JSON rows, alone or with a source', () => {
+    expect(parseBirthRateTable('[{"iso3":"IND","year":2023,"births":1}]').rows).toEqual([{ iso3: 'IND', year: 2023, births: 1 }]);
+    const { rows, source } = parseBirthRateTable(JSON.stringify({ source: ' Ministry of Health ', data: [{ ISO3: 'CHN', Year: '2022', Births: '9000000' }] }));
+    expect(rows).toEqual([{ iso3: 'CHN', year: 2022, births: 9000000 }]);
+    expect(source).toBe('Ministry of Health');
+  });
+
+  it('skips invalid rows and summarises them', () => {
+    const { rows, issues } = parseBirthRateTable('iso3,year,births\nIN,2023,5\nIND,1900,5\nIND,2023,-1\nIND,2023,10');
+    expect(rows).toEqual([{ iso3: 'IND', year: 2023, births: 10 }]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatch(/^3 invalid rows skipped \(row 1: missing or malformed ISO3 code; row 2: year/);
+  });
+
+  it('rejects tables that are not rows', () => {
+    expect(() => parseBirthRateTable('{"rows": []}')).toThrow(/data array/);
+    expect(() => parseBirthRateTable('iso3,year,births')).toThrow(/header row and at least one data row/);
+  });
+});
+
+describe('bundled country table', () => {
+  it('has codes, a continent and a time zone for every country', () => {
+    expect(new Set(COUNTRY_BIRTH_RATES.map(c => c.iso3)).size).toBe(COUNTRY_BIRTH_RATES.length);
+    for (const c of COUNTRY_BIRTH_RATES) {
+      expect(c.iso2, c.iso3).toMatch(/^[A-Z]{2}$/);
+      expect(c.continent, c.iso3).toBeTruthy();
+      expect(c.timeZone, c.iso3).toBeTruthy();
+      expect(() => new Intl.DateTimeFormat('en', { timeZone: c.timeZone }), c.iso3).not.toThrow();
+    }
+  });
+});
+
+describe('birth-rate datasets', () => {
+  it('takes the latest year unless one is named', () => {
+    const rows = [...tableFor(2022, 1), ...tableFor(2023, 3)];
+    const latest = buildBirthRateDataset(rows, 0, 'Test', 'file').dataset;
+    expect(latest.year).toBe(2023);
+    expect(latest.rates[0].birthsPerYear).toBe(COUNTRY_BIRTH_RATES[0].birthsPerYear * 3);
+    expect(buildBirthRateDataset(rows, 2022, 'Test', 'file').dataset.rates[0].birthsPerYear).toBe(COUNTRY_BIRTH_RATES[0].birthsPerYear);
+  });
+
+  it('keeps bundled figures for missing countries and reports unknown and duplicate rows', () => {
+    const covered = COUNTRY_BIRTH_RATES.slice(0, Math.ceil(COUNTRY_BIRTH_RATES.length * 0.75));
+    const rows = [...tableFor(2023, 2, covered), { iso3: 'XXX', year: 2023, births: 5 }, { ...tableFor(2023, 4)[0] }];
+    const { dataset, issues } = buildBirthRateDataset(rows, 0, 'Test', 'http');
+    const last = COUNTRY_BIRTH_RATES[COUNTRY_BIRTH_RATES.length - 1];
+    expect(dataset.rates.find(c => c.iso3 === last.iso3)).toBe(last);
+    expect(dataset.rates[0].birthsPerYear).toBe(COUNTRY_BIRTH_RATES[0].birthsPerYear * 4);
+    expect(issues).toEqual([
+      '1 unknown countries ignored (XXX)',
+      '1 duplicate rows; the last of each was used',
+      expect.stringMatching(new RegExp(`^${COUNTRY_BIRTH_RATES.length - covered.length} countries missing from 2023, bundled figures kept`)),
+    ]);
+  });
+
+  it('rejects a table covering fewer than half of the countries', () => {
+    const half = Math.ceil(COUNTRY_BIRTH_RATES.length / 2);
+    expect(() => buildBirthRateDataset(tableFor(2023, 1, COUNTRY_BIRTH_RATES.slice(0, half - 1)), 0, 'Test', 'file')).toThrow(/covers only/);
+    expect(() => buildBirthRateDataset(tableFor(2023, 1, COUNTRY_BIRTH_RATES.slice(0, half)), 0, 'Test', 'file')).not.toThrow();
+    expect(() => buildBirthRateDataset(tableFor(2023, 1), 2020, 'Test', 'file')).toThrow(/no usable rows for 2020/);
+  });
+});
+
+describe('http provider cache', () => {
+  const ENDPOINT = 'https://data.example/rates.csv';
+  let store: Map<string, string>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const respondWith = (text: string | null) =>
+    fetchMock.mockResolvedValueOnce(text === null ? { ok: false, status: 503 } : { ok: true, text: async () => text });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2026, 9, 19));
+    store = new Map();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('window', {
+      localStorage: { getItem: (k: string) => store.get(k) ?? null, setItem: (k: string, v: string) => { store.set(k, v); } },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('reuses a response for a day and fetches again after that', async () => {
+    const provider = createHttpProvider(ENDPOINT);
+    respondWith(csvFor(tableFor(2023, 2)));
+    expect((await provider.load()).dataset.year).toBe(2023);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + DAY_MS - 1000);
+    expect((await provider.load()).dataset.year).toBe(2023);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 2000);
+    respondWith(csvFor(tableFor(2024, 2)));
+    expect((await provider.load()).dataset.year).toBe(2024);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to an expired copy when the endpoint is down', async () => {
+    const provider = createHttpProvider(ENDPOINT);
+    respondWith(csvFor(tableFor(2023, 2)));
+    await provider.load();
+    vi.setSystemTime(Date.now() + 2 * DAY_MS);
+    respondWith(null);
+    const { dataset, issues } = await provider.load();
+    expect(dataset.year).toBe(2023);
+    expect(issues[0]).toMatch(/^endpoint unavailable \(HTTP 503 for .*\), using the copy cached 2026-10-19T00:00:00.000Z$/);
+  });
+
+  it('does not cache a response that fails validation', async () => {
+    const provider = createHttpProvider(ENDPOINT);
+    respondWith(csvFor(tableFor(2023, 2, COUNTRY_BIRTH_RATES.slice(0, 3))));
+    await expect(provider.load()).rejects.toThrow(/covers only 3/);
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,273 @@
+import { BIRTH_RATES_SOURCE, BIRTH_RATES_YEAR, COUNTRY_BIRTH_RATES } from '../constants';
+import { AppConfig, BirthRateDataset, BirthRateProviderKind, ConfigWarning } from '../types';
+
+export interface BirthRateRow {
+  iso3: string;
+  year: number;
+  births: number;
+}
+
+export interface BirthRateResult {
+  dataset: BirthRateDataset;
+  /** Rows or countries that were skipped or patched, for the warning banner. */
+  issues: string[];
+}
+
+export interface BirthRateProvider {
+  readonly kind: BirthRateProviderKind;
+  load(): Promise<BirthRateResult>;
+}
+
+// A dataset has to cover at least this share of the bundled countries to replace it
+const MIN_COVERAGE = 0.5;
+const HTTP_TIMEOUT_MS = 8000;
+// A cached endpoint response is reused without a request for this long, and kept as a fallback after
+const HTTP_CACHE_TTL_MS = 24 * 3600 * 1000;
+const HTTP_CACHE_PREFIX = 'birthcounter.rates:';
+
+// --- Parsing and validation ---
+
+// Header names accepted for each column, compared case-insensitively. UN WPP exports call the
+// columns ISO3_code and Time; its Births column is in thousands, so rename it births_thousands.
+const COLUMNS = {
+  iso3: ['iso3', 'iso3_code', 'iso3code'],
+  year: ['year', 'time'],
+  births: ['births'],
+  birthsThousands: ['births_thousands'],
+};
+
+const splitCsvLine = (line: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(cell); cell = ''; }
+    else cell += ch;
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+};
+
+const pick = (record: Record<string, unknown>, names: string[]) => {
+  const key = Object.keys(record).find(k => names.includes(k.trim().toLowerCase()));
+  return key === undefined ? undefined : record[key];
+};
+
+const toRow = (record: Record<string, unknown>): BirthRateRow | string => {
+  const iso3 = String(pick(record, COLUMNS.iso3) ?? '').trim().toUpperCase();
+  const year = Number(pick(record, COLUMNS.year));
+  const thousands = pick(record, COLUMNS.birthsThousands);
+  const births = thousands !== undefined ? Number(thousands) * 1000 : Number(pick(record, COLUMNS.births));
+  if (!/^[A-Z]{3}$/.test(iso3)) return 'missing or malformed ISO3 code';
+  if (!Number.isInteger(year) || year < 1950 || year > 2100) return 'year is not a whole number from 1950 to 2100';
+  if (!Number.isFinite(births) || births < 0) return 'births is not a non-negative number';
+  return { iso3, year, births };
+};
+
+/**
+ * Reads a table of births by country and year from CSV (header row required) or JSON (an array
+ * of row objects, or `{ source, data }` where `source` is the attribution). Invalid rows are
+ * skipped and summarised in `issues`.
+ */
+export const parseBirthRateTable = (text: string) => {
+  const issues: string[] = [];
+  let records: Record<string, unknown>[];
+  let source: string | null = null;
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const json = JSON.parse(trimmed);
+    const data = Array.isArray(json) ? json : json?.data;
+    if (!Array.isArray(data)) throw new Error('expected an array of rows or an object with a data array');
+    if (!Array.isArray(json) && typeof json.source === 'string') source = json.source.trim() || null;
+    records = data.filter(r => r && typeof r === 'object');
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter(l => l.trim());
+    if (lines.length < 2) throw new Error('expected a header row and at least one data row');
+    const header = splitCsvLine(lines[0]);
+    records = lines.slice(1).map(line => {
+      const cells = splitCsvLine(line);
+      return Object.fromEntries(header.map((name, i) => [name, cells[i]]));
+    });
+  }
+
+  const rows: BirthRateRow[] = [];
+  const rejected: string[] = [];
+  records.forEach((record, i) => {
+    const row = toRow(record);
+    if (typeof row === 'string') rejected.push(`row ${i + 1}: ${row}`);
+    else rows.push(row);
+  });
+  if (rejected.length) issues.push(`${rejected.length} invalid rows skipped (${rejected.slice(0, 3).join('; ')})`);
+  return { rows, source, issues };
+};
+
+/**
+ * Applies one year of `rows` to the bundled country table, which supplies names, continents and
+ * time zones. `year` 0 takes the latest year present. Countries absent from the data keep their
+ * bundled figure; a dataset that covers too few of them is rejected outright.
+ */
+export const buildBirthRateDataset = (
+  rows: BirthRateRow[],
+  year: number,
+  source: string,
+  provider: BirthRateProviderKind
+): BirthRateResult => {
+  const issues: string[] = [];
+  const targetYear = year || Math.max(...rows.map(r => r.year));
+  const births = new Map<string, number>();
+  const unknown = new Set<string>();
+  let duplicates = 0;
+
+  rows.filter(r => r.year === targetYear).forEach(r => {
+    if (!COUNTRY_BIRTH_RATES.some(c => c.iso3 === r.iso3)) { unknown.add(r.iso3); return; }
+    if (births.has(r.iso3)) duplicates++;
+    births.set(r.iso3, r.births);
+  });
+
+  if (!births.size) throw new Error(`no usable rows for ${Number.isFinite(targetYear) ? targetYear : 'any year'}`);
+  if (births.size < COUNTRY_BIRTH_RATES.length * MIN_COVERAGE) {
+    throw new Error(`covers only ${births.size} of ${COUNTRY_BIRTH_RATES.length} countries for ${targetYear}`);
+  }
+  if (unknown.size) issues.push(`${unknown.size} unknown countries ignored (${[...unknown].slice(0, 5).join(', ')})`);
+  if (duplicates) issues.push(`${duplicates} duplicate rows; the last of each was used`);
+
+  const missing = COUNTRY_BIRTH_RATES.filter(c => !births.has(c.iso3));
+  if (missing.length) {
+    issues.push(`${missing.length} countries missing from ${targetYear}, bundled figures kept (${missing.slice(0, 5).map(c => c.iso3).join(', ')})`);
+  }
+
+  const rates = COUNTRY_BIRTH_RATES.map(c => (births.has(c.iso3) ? { ...c, birthsPerYear: births.get(c.iso3)! } : c));
+  if (!rates.some(c => c.birthsPerYear > 0)) throw new Error('every country has zero births');
+  return { dataset: { rates, year: targetYear, source, provider }, issues };
+};
+
+// --- Providers ---
+
+/** The table compiled into the app. Never fails, so it is also the fallback for the others. */
+export const createStaticProvider = (): BirthRateProvider => ({
+  kind: 'static',
+  load: async () => ({
+    dataset: { rates: COUNTRY_BIRTH_RATES, year: BIRTH_RATES_YEAR, source: BIRTH_RATES_SOURCE, provider: 'static' },
+    issues: [],
+  }),
+});
+
+const fileCache = new Map<string, Promise<string>>();
+
+const fetchText = (url: string, init?: RequestInit) =>
+  fetch(url, init).then(res => {
+    if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+    return res.text();
+  });
+
+const creditFor = (url: string, declared: string | null, credit: string | null) =>
+  credit || declared || new URL(url).host || url;
+
+/** A CSV or JSON file deployed alongside the app, fetched once per page load. */
+export const createFileProvider = (url: string, year = 0, credit: string | null = null): BirthRateProvider => ({
+  kind: 'file',
+  load: async () => {
+    let pending = fileCache.get(url);
+    if (!pending) {
+      pending = fetchText(url);
+      pending.catch(() => fileCache.delete(url));
+      fileCache.set(url, pending);
+    }
+    const { rows, source, issues } = parseBirthRateTable(await pending);
+    const result = buildBirthRateDataset(rows, year, creditFor(url, source, credit), 'file');
+    return { ...result, issues: [...issues, ...result.issues] };
+  },
+});
+
+interface CachedResponse {
+  fetchedAt: number;
+  text: string;
+}
+
+const readCache = (key: string): CachedResponse | null => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCache = (key: string, text: string) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify({ fetchedAt: Date.now(), text }));
+  } catch {
+    // A full or disabled store only costs a refetch next load
+  }
+};
+
+/**
+ * A remote endpoint returning the same CSV or JSON table. Responses are cached in localStorage
+ * for a day, and a stale copy is used when the endpoint is slow or down. Any static server
+ * holding a data file can stand in for it during development.
+ */
+export const createHttpProvider = (url: string, year = 0, credit: string | null = null): BirthRateProvider => ({
+  kind: 'http',
+  load: async () => {
+    const cacheKey = HTTP_CACHE_PREFIX + url;
+    const cached = readCache(cacheKey);
+    const fetchIssues: string[] = [];
+    let text: string;
+
+    if (cached && Date.now() - cached.fetchedAt < HTTP_CACHE_TTL_MS) {
+      text = cached.text;
+    } else {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+      try {
+        text = await fetchText(url, { signal: controller.signal, headers: { Accept: 'application/json, text/csv' } });
+        // Validate before caching so a bad response is not pinned for a day
+        buildBirthRateDataset(parseBirthRateTable(text).rows, year, '', 'http');
+        writeCache(cacheKey, text);
+      } catch (err) {
+        if (!cached) throw err;
+        text = cached.text;
+        fetchIssues.push(`endpoint unavailable (${(err as Error).message}), using the copy cached ${new Date(cached.fetchedAt).toISOString()}`);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    const { rows, source, issues } = parseBirthRateTable(text);
+    const result = buildBirthRateDataset(rows, year, creditFor(url, source, credit), 'http');
+    return { ...result, issues: [...fetchIssues, ...issues, ...result.issues] };
+  },
+});
+
+export const createBirthRateProvider = (config: AppConfig): BirthRateProvider => {
+  if (config.rates === 'static' || !config.ratesUrl) return createStaticProvider();
+  return config.rates === 'http'
+    ? createHttpProvider(config.ratesUrl, config.ratesYear, config.ratesCredit)
+    : createFileProvider(config.ratesUrl, config.ratesYear, config.ratesCredit);
+};
+
+/**
+ * Loads the configured birth-rate dataset, falling back to the bundled table when the provider
+ * fails. Problems are returned as warnings for the on-screen banner.
+ */
+export const loadBirthRates = async (config: AppConfig): Promise<{ dataset: BirthRateDataset; warnings: ConfigWarning[] }> => {
+  if (config.rates !== 'static' && !config.ratesUrl) {
+    const { dataset } = await createStaticProvider().load();
+    return { dataset, warnings: [{ source: 'rates', key: 'ratesUrl', message: `required for rates=${config.rates}; using bundled data` }] };
+  }
+  const key = config.ratesUrl || config.rates;
+  try {
+    const { dataset, issues } = await createBirthRateProvider(config).load();
+    return { dataset, warnings: issues.map(message => ({ source: 'rates', key, message })) };
+  } catch (err) {
+    const { dataset } = await createStaticProvider().load();
+    return { dataset, warnings: [{ source: 'rates', key, message: `could not be loaded (${(err as Error).message}); using bundled data` }] };
+  }
+};
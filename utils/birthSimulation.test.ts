@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { COUNTRY_BIRTH_RATES, SECONDS_PER_YEAR } from '../constants';
+import { SimulationUpdate } from '../types';
+import { createBirthSimulation, SimulationClock } from './birthSimulation';
+
+const DAY_MS = 86400000;
+const START = Date.UTC(2026, 9, 19, 12);
+const SEED = 42;
+
+/** A clock that only moves when told to; due timers run in order as it passes them. */
+const createManualClock = (start: number) => {
+  let now = start;
+  let nextId = 1;
+  const timers = new Map<number, { due: number; fn: () => void }>();
+  const clock: SimulationClock = {
+    now: () => now,
+    setTimeout: (fn, ms) => {
+      const id = nextId++;
+      timers.set(id, { due: now + ms, fn });
+      return id;
+    },
+    clearTimeout: handle => { timers.delete(handle as number); },
+  };
+  const runDue = () => {
+    for (;;) {
+      const due = [...timers].filter(([, t]) => t.due <= now).sort((a, b) => a[1].due - b[1].due)[0];
+      if (!due) return;
+      timers.delete(due[0]);
+      due[1].fn();
+    }
+  };
+  return {
+    clock,
+    /** Steps to `t` timer by timer, as a foreground tab would. */
+    advanceTo: (t: number) => {
+      for (;;) {
+        const next = Math.min(...[...timers.values()].map(timer => timer.due));
+        if (!(next <= t)) break;
+        now = Math.max(now, next);
+        runDue();
+      }
+      now = t;
+      runDue();
+    },
+    /** Jumps to `t` and only then runs the timers that came due, as a throttled background tab does. */
+    sleepUntil: (t: number) => {
+      now = t;
+      runDue();
+    },
+  };
+};
+
+const simulationAt = (clock: SimulationClock, diurnal = false) =>
+  createBirthSimulation({ rates: COUNTRY_BIRTH_RATES, dayMode: { kind: 'utc' }, clock, seed: SEED, diurnal });
+
+describe('birth simulation', () => {
+  it('keeps every country within one birth of its rate over long windows', () => {
+    const { clock } = createManualClock(START);
+    const simulation = simulationAt(clock);
+    const windows = [3600000, DAY_MS, 30 * DAY_MS, 365 * DAY_MS];
+    windows.forEach(span => {
+      const expected = COUNTRY_BIRTH_RATES.reduce((sum, c) => sum + c.birthsPerYear / SECONDS_PER_YEAR / 1000 * span, 0);
+      const counted = simulation.birthsBetween(START, START + span);
+      // Each country's count is within one of its own expectation at either end of the window
+      expect(Math.abs(counted - expected)).toBeLessThanOrEqual(2 * COUNTRY_BIRTH_RATES.length);
+    });
+  });
+
+  it('keeps whole-day totals unchanged when births follow the time of day', () => {
+    const { clock } = createManualClock(START);
+    const flat = simulationAt(clock);
+    const diurnal = simulationAt(clock, true);
+    const dayStart = Date.UTC(2026, 9, 19);
+    const flatTotal = flat.birthsBetween(dayStart, dayStart + 7 * DAY_MS);
+    const diurnalTotal = diurnal.birthsBetween(dayStart, dayStart + 7 * DAY_MS);
+    expect(Math.abs(diurnalTotal - flatTotal)).toBeLessThanOrEqual(2 * COUNTRY_BIRTH_RATES.length);
+  });
+
+  it('enumerates exactly the births it counts', () => {
+    const { clock } = createManualClock(START);
+    const simulation = simulationAt(clock);
+    const events = simulation.eventsBetween(START, START + 600000);
+    expect(events.length).toBe(simulation.birthsBetween(START, START + 600000));
+    expect(new Set(events.map(e => e.id)).size).toBe(events.length);
+    events.forEach((e, i) => {
+      expect(e.time).toBeGreaterThan(START - 1);
+      expect(e.time).toBeLessThanOrEqual(START + 600000);
+      if (i) expect(e.time).toBeGreaterThanOrEqual(events[i - 1].time);
+    });
+  });
+
+  it('is reproducible for a seed and differs between seeds', () => {
+    const { clock } = createManualClock(START);
+    const a = simulationAt(clock).eventsBetween(START, START + 60000).map(e => e.id);
+    const b = simulationAt(clock).eventsBetween(START, START + 60000).map(e => e.id);
+    const other = createBirthSimulation({ rates: COUNTRY_BIRTH_RATES, dayMode: { kind: 'utc' }, clock, seed: SEED + 1 })
+      .eventsBetween(START, START + 60000).map(e => e.id);
+    expect(a).toEqual(b);
+    expect(other).not.toEqual(a);
+  });
+
+  it('finds the next birth strictly after any instant, with none in between', () => {
+    [false, true].forEach(diurnal => {
+      const { clock } = createManualClock(START);
+      const simulation = simulationAt(clock, diurnal);
+      let after = START;
+      for (let step = 0; step < 250; step++) {
+        const next = simulation.nextBirthEvent(after);
+        // Walking from an event's own instant must move on to the one after it
+        expect(next.time).toBeGreaterThan(after);
+        // A margin either side keeps the check clear of rounding at the window's edges
+        const around = simulation.eventsBetween(after - 1000, next.time + 1000);
+        expect(around.map(e => e.id)).toContain(next.id);
+        expect(around.filter(e => e.time > after && e.time < next.time)).toEqual([]);
+        after = next.time;
+      }
+    });
+  });
+
+  it('starts the count again at midnight', () => {
+    const midnight = Date.UTC(2026, 9, 20);
+    const manual = createManualClock(midnight - 5000);
+    const simulation = simulationAt(manual.clock);
+    const updates: SimulationUpdate[] = [];
+    const unsubscribe = simulation.subscribe(update => updates.push(update));
+
+    const before = updates[updates.length - 1];
+    expect(before.births).toBe(simulation.birthsBetween(midnight - DAY_MS, midnight - 5000));
+    expect(before.progress.pct).toBeGreaterThan(99.9);
+
+    manual.advanceTo(midnight + 5000);
+    const after = updates[updates.length - 1];
+    expect(after.births).toBe(simulation.birthsBetween(midnight, midnight + 5000));
+    expect(after.births).toBeLessThan(before.births);
+    expect(after.progress.pct).toBeLessThan(0.1);
+    // Ticks never stall for longer than a second, so the rollover shows promptly
+    const firstAfter = updates.find(u => u.time >= midnight)!;
+    expect(firstAfter.time - midnight).toBeLessThanOrEqual(1000);
+    unsubscribe();
+  });
+
+  it('catches up with the exact count after a background tab wakes', () => {
+    const manual = createManualClock(START);
+    const simulation = simulationAt(manual.clock);
+    const updates: SimulationUpdate[] = [];
+    const unsubscribe = simulation.subscribe(update => updates.push(update));
+    manual.advanceTo(START + 2000);
+    const asleepAt = updates[updates.length - 1].time;
+
+    manual.sleepUntil(START + 10 * 60000);
+    const woke = updates[updates.length - 1];
+    const dayStart = Date.UTC(2026, 9, 19);
+    expect(woke.time).toBe(START + 10 * 60000);
+    expect(woke.births).toBe(simulation.birthsBetween(dayStart, woke.time));
+    // Only the newest events are handed over, and none from before the tab slept
+    expect(woke.events.length).toBe(64);
+    expect(woke.events.map(e => e.id)).toEqual(simulation.eventsBetween(asleepAt, woke.time, 64).map(e => e.id));
+    woke.events.forEach(e => expect(e.time).toBeGreaterThan(asleepAt));
+    unsubscribe();
+  });
+});
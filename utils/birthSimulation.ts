@@ -0,0 +1,269 @@
+import { SECONDS_PER_YEAR } from '../constants';
+import { BirthEvent, CountryBirthRate, DayBoundaryMode, DayWindows, MetricId, SimulationUpdate } from '../types';
+import { computeDayProgress, countryDayWindows, standardOffsetMs } from './dayClock';
+
+export interface SimulationClock {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+  /** Simulated milliseconds that pass per real millisecond; 1 when omitted, 0 while paused. */
+  rate?(): number;
+  /** False while the clock replays some other moment. */
+  isLive?(): boolean;
+  /** Notifies when the clock jumps or changes speed, so timers scheduled against it go stale. */
+  subscribe?(listener: () => void): () => void;
+}
+
+export const systemClock: SimulationClock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => globalThis.setTimeout(fn, ms),
+  clearTimeout: handle => globalThis.clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+// Every screen running the default seed sees the same births at the same instants.
+export const DEFAULT_SEED = 0x20260101;
+
+// The progress bar and day rollover still need a tick when births are sparse.
+const MAX_TICK_INTERVAL_MS = 1000;
+// Caps how many events one tick hands to listeners after a long stall (e.g. a background
+// tab waking up). Counts stay exact; only the oldest visuals are skipped.
+const MAX_EVENTS_PER_TICK = 64;
+
+const DAY_MS = 86400000;
+const HOUR_MS = 3600000;
+// Relative birth rate by local hour is 1 + A·cos(2π(h − peak) / 24). Scheduled inductions and
+// caesareans put the peak in the late morning. A pure cosine averages to exactly 1 over any
+// 24 hours, so daily totals are unchanged; A < 1 keeps the rate positive at every hour.
+const DIURNAL_AMPLITUDE = 0.25;
+const DIURNAL_PEAK_HOUR = 10;
+
+const mix32 = (h: number) => {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+/** Deterministic uniform number in [0, 1) for the `n`th draw of `stream` under `seed`. */
+export const hashUnit = (seed: number, stream: number, n: number) => {
+  let h = mix32(seed ^ Math.imul(stream + 1, 0x9e3779b9));
+  h = mix32(h ^ (n >>> 0));
+  h = mix32(h ^ Math.floor(n / 4294967296));
+  return h / 4294967296;
+};
+
+export interface BirthSimulationOptions {
+  rates: CountryBirthRate[];
+  dayMode: DayBoundaryMode;
+  clock?: SimulationClock;
+  seed?: number;
+  /** Weight each country's births by its local time of day. */
+  diurnal?: boolean;
+  /** What `rates` count; events of metrics other than births get ids of their own. */
+  metric?: MetricId;
+}
+
+export interface BirthSimulation {
+  /** The per-country rates it counts; anything shown beside its counts should read these too. */
+  readonly rates: CountryBirthRate[];
+  readonly birthsPerSecond: number;
+  now(): number;
+  birthsBetween(t0: number, t1: number): number;
+  eventsBetween(t0: number, t1: number, limit?: number): BirthEvent[];
+  nextBirthEvent(after: number): BirthEvent;
+  snapshot(t?: number): SimulationUpdate;
+  countryBirthsToday(t?: number): Map<string, number>;
+  subscribe(listener: (update: SimulationUpdate) => void): () => void;
+  /** Simulated milliseconds per real millisecond on the driving clock. */
+  timeScale(): number;
+  isLive(): boolean;
+  /** Restarts ticking from the clock's current time without replaying the births in between. */
+  resync(): void;
+}
+
+/**
+ * Births are modelled as one stream per country. The `n`th birth of a country happens when its
+ * expected cumulative births since the epoch reach `n - 1 + u`, with `u` a seeded hash of `n`.
+ * That keeps every count within one birth of the rate formula while letting any window be
+ * counted or enumerated directly from the clock, with no state carried between timer ticks.
+ *
+ * With `diurnal`, expected births accumulate along the time-of-day curve instead of linearly,
+ * using each country's standard-time offset so the curve has no DST discontinuities.
+ *
+ * Nothing here is specific to births: given another metric's yearly rates, the same streams
+ * count and place its events.
+ */
+export const createBirthSimulation = ({
+  rates,
+  dayMode,
+  clock = systemClock,
+  seed = DEFAULT_SEED,
+  diurnal = false,
+  metric = 'births',
+}: BirthSimulationOptions): BirthSimulation => {
+  const perMs = rates.map(c => c.birthsPerYear / SECONDS_PER_YEAR / 1000);
+  const birthsPerSecond = perMs.reduce((sum, r) => sum + r, 0) * 1000;
+
+  // Shift from epoch time to "milliseconds since the daily peak" for each country
+  const phases = rates.map(c => standardOffsetMs(c.timeZone) - DIURNAL_PEAK_HOUR * HOUR_MS);
+  const cycleAngle = (i: number, t: number) => ((((t + phases[i]) % DAY_MS) + DAY_MS) % DAY_MS) / DAY_MS * 2 * Math.PI;
+  const cycleSpan = DIURNAL_AMPLITUDE * DAY_MS / (2 * Math.PI);
+
+  // Expected births of country `i` from the epoch to `t`: the integral of its rate curve
+  const expectedUpTo = (i: number, t: number) => {
+    if (!diurnal) return t * perMs[i];
+    return perMs[i] * (t + cycleSpan * (Math.sin(cycleAngle(i, t)) - Math.sin(cycleAngle(i, 0))));
+  };
+
+  const countUpTo = (i: number, t: number) => {
+    if (perMs[i] <= 0 || t <= 0) return 0;
+    const expected = expectedUpTo(i, t);
+    const k = Math.floor(expected);
+    return k + (expected - k >= hashUnit(seed, i, k + 1) ? 1 : 0);
+  };
+
+  // Inverts `expectedUpTo` by Newton's method; the curve's slope never drops below (1 - A)
+  // times the mean rate, so a few steps from the linear estimate reach sub-millisecond accuracy.
+  const eventTime = (i: number, n: number) => {
+    const target = n - 1 + hashUnit(seed, i, n);
+    let t = target / perMs[i];
+    if (!diurnal) return t;
+    for (let step = 0; step < 20; step++) {
+      const rate = perMs[i] * (1 + DIURNAL_AMPLITUDE * Math.cos(cycleAngle(i, t)));
+      const dt = (expectedUpTo(i, t) - target) / rate;
+      t -= dt;
+      if (Math.abs(dt) < 1e-4) break;
+    }
+    return t;
+  };
+
+  const idPrefix = metric === 'births' ? '' : `${metric}:`;
+  const makeEvent = (i: number, n: number): BirthEvent => ({
+    id: `${idPrefix}${rates[i].iso3}:${n}`,
+    time: eventTime(i, n),
+    iso3: rates[i].iso3,
+    metric,
+  });
+
+  const birthsBetween = (t0: number, t1: number) => {
+    let total = 0;
+    for (let i = 0; i < rates.length; i++) total += countUpTo(i, t1) - countUpTo(i, t0);
+    return total;
+  };
+
+  const eventsBetween = (t0: number, t1: number, limit = Infinity) => {
+    const events: BirthEvent[] = [];
+    for (let i = 0; i < rates.length; i++) {
+      const last = countUpTo(i, t1);
+      const first = Math.max(countUpTo(i, t0) + 1, last - limit + 1);
+      for (let n = first; n <= last; n++) events.push(makeEvent(i, n));
+    }
+    events.sort((a, b) => a.time - b.time);
+    return events.length > limit ? events.slice(events.length - limit) : events;
+  };
+
+  // The smallest `n` whose birth falls strictly after `after`. The count at an event's own
+  // instant can round either way, so it only gives the starting point.
+  const firstIndexAfter = (i: number, after: number) => {
+    let n = Math.max(1, countUpTo(i, after));
+    while (n > 1 && eventTime(i, n - 1) > after) n--;
+    while (eventTime(i, n) <= after) n++;
+    return n;
+  };
+
+  const nextBirthEvent = (after: number) => {
+    let best: BirthEvent | null = null;
+    for (let i = 0; i < rates.length; i++) {
+      if (perMs[i] <= 0) continue;
+      const candidate = makeEvent(i, firstIndexAfter(i, after));
+      if (!best || candidate.time < best.time) best = candidate;
+    }
+    if (!best) throw new Error('Birth simulation has no countries with a positive rate');
+    return best;
+  };
+
+  let windows: DayWindows | null = null;
+  const windowsAt = (t: number) => {
+    if (!windows || t >= windows.validUntil || t < Math.min(...windows.starts)) {
+      windows = countryDayWindows(dayMode, rates, t);
+    }
+    return windows;
+  };
+
+  const snapshot = (t = clock.now()): SimulationUpdate => {
+    const w = windowsAt(t);
+    let births = 0;
+    for (let i = 0; i < rates.length; i++) births += countUpTo(i, t) - countUpTo(i, w.starts[i]);
+    return { time: t, births, progress: computeDayProgress(dayMode, rates, w, t), events: [], resync: false };
+  };
+
+  const countryBirthsToday = (t = clock.now()) => {
+    const w = windowsAt(t);
+    const counts = new Map<string, number>();
+    rates.forEach((c, i) => counts.set(c.iso3, countUpTo(i, t) - countUpTo(i, w.starts[i])));
+    return counts;
+  };
+
+  const listeners = new Set<(update: SimulationUpdate) => void>();
+  let timer: unknown = null;
+  let lastTick = 0;
+  let unsubscribeClock: (() => void) | null = null;
+
+  const tick = (resync = false) => {
+    const now = clock.now();
+    const update = snapshot(now);
+    update.events = eventsBetween(lastTick, now, MAX_EVENTS_PER_TICK);
+    update.resync = resync;
+    lastTick = now;
+    listeners.forEach(l => l(update));
+    // The next birth is always ahead; the floor only matches timers' millisecond resolution
+    const wait = Math.min(nextBirthEvent(now).time - now, MAX_TICK_INTERVAL_MS);
+    timer = clock.setTimeout(tick, Math.max(wait, 1));
+  };
+
+  // A seek makes the births between the old and new time meaningless as a live stream, and a
+  // speed change leaves the pending timer scaled for the old rate.
+  const resync = () => {
+    if (timer === null) return;
+    clock.clearTimeout(timer);
+    lastTick = clock.now();
+    tick(true);
+  };
+
+  const subscribe = (listener: (update: SimulationUpdate) => void) => {
+    listeners.add(listener);
+    if (listeners.size === 1) {
+      lastTick = clock.now();
+      unsubscribeClock = clock.subscribe?.(resync) ?? null;
+      tick();
+    } else {
+      listener(snapshot());
+    }
+    return () => {
+      listeners.delete(listener);
+      if (!listeners.size && timer !== null) {
+        clock.clearTimeout(timer);
+        timer = null;
+        unsubscribeClock?.();
+        unsubscribeClock = null;
+      }
+    };
+  };
+
+  return {
+    rates,
+    birthsPerSecond,
+    now: () => clock.now(),
+    birthsBetween,
+    eventsBetween,
+    nextBirthEvent,
+    snapshot,
+    countryBirthsToday,
+    subscribe,
+    timeScale: () => clock.rate?.() ?? 1,
+    isLive: () => clock.isLive?.() ?? true,
+    resync,
+  };
+};
@@ -0,0 +1,48 @@
+import { BirthStatsSummary, Continent } from '../types';
+import { BirthSimulation } from './birthSimulation';
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Rolling rates, today's leaderboard and continent subtotals at instant `t`. Everything is
+ * read back from the simulation clock rather than accumulated from events, so a tab that was
+ * asleep, a replayed timeline or a day rollover all produce the same figures. Countries and
+ * continents come from the simulation's own rates, so the panel always matches the counter.
+ */
+export const computeBirthStats = (
+  simulation: BirthSimulation,
+  t: number,
+  topN: number,
+  sparklineMinutes: number
+): BirthStatsSummary => {
+  const today = simulation.countryBirthsToday(t);
+
+  const leaders = simulation.rates
+    .map(c => ({ iso3: c.iso3, name: c.name, births: today.get(c.iso3) || 0 }))
+    .sort((a, b) => b.births - a.births)
+    .slice(0, topN);
+
+  const byContinent = new Map<Continent, number>();
+  simulation.rates.forEach(c => {
+    byContinent.set(c.continent, (byContinent.get(c.continent) || 0) + (today.get(c.iso3) || 0));
+  });
+  const continents = [...byContinent]
+    .map(([continent, births]) => ({ continent, births }))
+    .sort((a, b) => b.births - a.births);
+
+  // Completed minutes only, so the newest bucket does not read as a dip while it fills.
+  const lastMinuteEnd = Math.floor(t / MINUTE_MS) * MINUTE_MS;
+  const perMinute: number[] = [];
+  for (let k = sparklineMinutes; k >= 1; k--) {
+    const end = lastMinuteEnd - (k - 1) * MINUTE_MS;
+    perMinute.push(simulation.birthsBetween(end - MINUTE_MS, end));
+  }
+
+  return {
+    lastMinute: simulation.birthsBetween(t - MINUTE_MS, t),
+    lastHour: simulation.birthsBetween(t - 60 * MINUTE_MS, t),
+    leaders,
+    continents,
+    perMinute,
+  };
+};
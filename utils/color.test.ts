@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { THEME_NAMES, THEMES } from '../constants';
+import { accessibleHudColors, contrastRatio } from './color';
+
+describe('colour contrast', () => {
+  it('measures contrast the way WCAG does', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+    expect(contrastRatio('#ffffff', '#000000')).toBeCloseTo(21);
+    expect(contrastRatio('#777777', '#777777')).toBe(1);
+    expect(contrastRatio('#767676', '#ffffff')).toBeCloseTo(4.54, 2);
+  });
+
+  it('gives accessible HUD text AAA contrast in every theme', () => {
+    THEME_NAMES.forEach(name => {
+      const { ink, backdrop } = accessibleHudColors(THEMES[name].colors);
+      expect(contrastRatio(ink, backdrop)).toBeGreaterThanOrEqual(7);
+    });
+  });
+
+  it('falls back to black or white when the theme text is too faint', () => {
+    const colors = { ...THEMES.brand.colors, TEXT: '#a855f7', BACKGROUND: '#c084fc' };
+    const { ink, backdrop } = accessibleHudColors(colors);
+    expect(ink).toBe('#000000');
+    expect(backdrop).toBe('#c084fc');
+  });
+});
@@ -0,0 +1,41 @@
+import * as d3 from 'd3';
+import { ThemeColors } from '../types';
+
+/** `color` as an rgba() string with its alpha multiplied by `alpha`. */
+export const withAlpha = (color: string, alpha: number) => {
+  const c = d3.color(color);
+  if (!c) return color;
+  c.opacity *= alpha;
+  return c.formatRgb();
+};
+
+// Contrast WCAG asks of small text at level AAA
+const ACCESSIBLE_CONTRAST = 7;
+
+const channel = (v: number) => {
+  const c = v / 255;
+  return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+const luminance = (color: string) => {
+  const { r, g, b } = d3.rgb(color);
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+};
+
+/** WCAG contrast ratio of two colours, from 1 (none) to 21 (black on white); alpha is ignored. */
+export const contrastRatio = (a: string, b: string) => {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+/**
+ * Colours for HUD text in accessible mode: the theme's text on its own background, made opaque
+ * so the globe never shows through, or black or white where that pair falls short of AAA.
+ */
+export const accessibleHudColors = (colors: ThemeColors) => {
+  const backdrop = d3.rgb(colors.BACKGROUND).copy({ opacity: 1 }).formatHex();
+  const ink = contrastRatio(colors.TEXT, backdrop) >= ACCESSIBLE_CONTRAST
+    ? colors.TEXT
+    : contrastRatio('#ffffff', backdrop) > contrastRatio('#000000', backdrop) ? '#ffffff' : '#000000';
+  return { ink, backdrop };
+};
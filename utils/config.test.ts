@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIG, resolveConfig } from './config';
+
+describe('config resolution', () => {
+  it('layers the file, localStorage and query string in that order', () => {
+    const { config, warnings } = resolveConfig([
+      { source: 'file', values: { rotation: 10, feed: 3, theme: 'daylight' } },
+      { source: 'localStorage', values: { rotation: 20 } },
+      { source: 'query', values: { rotation: '30', utm_source: 'poster' } },
+    ]);
+    expect(config.rotation).toBe(30);
+    expect(config.feed).toBe(3);
+    expect(config.theme).toBe('daylight');
+    expect(config.stars).toBe(DEFAULT_CONFIG.stars);
+    expect(warnings).toEqual([]);
+  });
+
+  it('clamps out-of-range values and drops invalid ones, with a warning for each', () => {
+    const { config, warnings } = resolveConfig([{ source: 'query', values: { rotation: '500', hud: 'sideways', feed: '2.6' } }]);
+    expect(config.rotation).toBe(60);
+    expect(config.hud).toBe(DEFAULT_CONFIG.hud);
+    expect(config.feed).toBe(3);
+    expect(warnings.map(w => w.key)).toEqual(['rotation', 'hud', 'feed']);
+    expect(warnings[1].message).toMatch(/ignored$/);
+  });
+
+  it('treats names inherited from Object.prototype as unknown settings', () => {
+    const names = ['toString', 'constructor', 'hasOwnProperty', 'valueOf', '__proto__'];
+    const query = Object.fromEntries(new URLSearchParams(names.map(n => `${n}=1`).join('&')));
+    const resolve = () => resolveConfig([
+      { source: 'file', values: { toString: 'x', rotation: 12 } },
+      { source: 'query', values: { ...query, tilt: '20' } },
+    ]);
+    expect(resolve).not.toThrow();
+    const { config, warnings } = resolve();
+    expect(config.rotation).toBe(12);
+    expect(config.tilt).toBe(20);
+    // Unknown keys are reported for the file but not for the query string
+    expect(warnings).toEqual([{ source: 'file', key: 'toString', message: 'unknown setting' }]);
+  });
+});
+
+describe('URL settings', () => {
+  const PAGE = 'https://kiosk.example/screen/index.html';
+  const resolveAt = (values: Record<string, unknown>) => {
+    vi.stubGlobal('window', { location: { href: PAGE } });
+    try {
+      return resolveConfig([{ source: 'query', values }]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  };
+
+  it('turns a URL setting off when it is left empty', () => {
+    const { config, warnings } = resolveAt({ milestoneUrl: '', geo: '  ', ratesUrl: '', syncUrl: '' });
+    expect([config.milestoneUrl, config.geo, config.ratesUrl, config.syncUrl]).toEqual([null, null, null, null]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('resolves relative URLs against the page', () => {
+    const { config } = resolveAt({ geo: 'maps/world.json', milestoneUrl: 'http://localhost:9000/milestone' });
+    expect(config.geo).toBe('https://kiosk.example/screen/maps/world.json');
+    expect(config.milestoneUrl).toBe('http://localhost:9000/milestone');
+  });
+
+  it('rejects URLs with other protocols', () => {
+    const { config, warnings } = resolveAt({ geo: 'javascript:alert(1)', ratesUrl: 'data:text/csv,x', syncUrl: 'relay', milestoneUrl: 'ws://host' });
+    expect([config.geo, config.ratesUrl, config.syncUrl, config.milestoneUrl]).toEqual([null, null, null, null]);
+    expect(warnings.map(w => w.key)).toEqual(['geo', 'ratesUrl', 'syncUrl', 'milestoneUrl']);
+    expect(warnings[2].message).toBe('expected a ws or wss URL; ignored');
+  });
+
+  it('accepts WebSocket relays for sync', () => {
+    expect(resolveAt({ syncUrl: 'ws://192.168.1.10:8787' }).config.syncUrl).toBe('ws://192.168.1.10:8787/');
+  });
+});
+
+describe('milestone settings', () => {
+  it('warns about rules for metrics that are not counted', () => {
+    const { config, warnings } = resolveConfig([
+      { source: 'file', values: { metrics: 'twins' } },
+      { source: 'query', values: { milestones: '100000,preterm:10000@IND,twins:1000,preterm:5000' } },
+    ]);
+    expect(config.milestones).toHaveLength(4);
+    expect(warnings).toEqual([{
+      source: 'query',
+      key: 'milestones',
+      message: 'preterm:10000@IND, preterm:5000 will not fire until preterm is added to metrics',
+    }]);
+  });
+
+  it('accepts rules for births and for enabled metrics without a warning', () => {
+    const { warnings } = resolveConfig([{ source: 'query', values: { metrics: 'preterm', milestones: '100000,preterm:10000@focus' } }]);
+    expect(warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,338 @@
+import { COUNTRY_BY_ISO3, THEME_NAMES } from '../constants';
+import { AppConfig, BirthRateProviderKind, ConfigSource, ConfigWarning, DayBoundaryMode, DigitStyle, FeedPosition, HudMode, MarkerStyle, MetricId, MetricLayout, MilestoneRule, MotionSetting, ThemeName, WallTile } from '../types';
+import { parseDayBoundaryMode } from './dayClock';
+import { parseLocaleTag, SUPPORTED_LOCALES } from './i18n';
+import { METRIC_IDS } from './metrics';
+
+export const CONFIG_STORAGE_KEY = 'birthcounter.config';
+// Looked up next to index.html on every load; a missing file is not an error.
+const DEFAULT_CONFIG_FILE = 'config.json';
+
+interface FieldResult<T> {
+  value?: T;
+  warning?: string;
+}
+
+interface Field<T> {
+  fallback: T;
+  parse(raw: unknown): FieldResult<T>;
+}
+
+const asText = (raw: unknown) => String(raw).trim();
+
+const numberField = (fallback: number, min: number, max: number, integer = false): Field<number> => ({
+  fallback,
+  parse: raw => {
+    const n = typeof raw === 'number' ? raw : Number(asText(raw));
+    if (asText(raw) === '' || !Number.isFinite(n)) return { warning: `expected a number from ${min} to ${max}` };
+    const value = Math.min(max, Math.max(min, integer ? Math.round(n) : n));
+    return value === n ? { value } : { value, warning: `${n} is outside ${min}–${max}, using ${value}` };
+  },
+});
+
+const booleanField = (fallback: boolean): Field<boolean> => ({
+  fallback,
+  parse: raw => {
+    const text = asText(raw).toLowerCase();
+    if (raw === true || ['on', 'true', '1', 'yes'].includes(text)) return { value: true };
+    if (raw === false || ['off', 'false', '0', 'no'].includes(text)) return { value: false };
+    return { warning: 'expected on or off' };
+  },
+});
+
+const enumField = <T extends string>(fallback: T, values: readonly T[]): Field<T> => ({
+  fallback,
+  parse: raw => {
+    const value = values.find(v => v === asText(raw));
+    return value ? { value } : { warning: `expected one of ${values.join(', ')}` };
+  },
+});
+
+const textField = (maxLength: number): Field<string | null> => ({
+  fallback: null,
+  parse: raw => {
+    const text = asText(raw);
+    if (!text) return { value: null };
+    return text.length <= maxLength
+      ? { value: text }
+      : { value: text.slice(0, maxLength), warning: `longer than ${maxLength} characters, truncated` };
+  },
+});
+
+const countryField: Field<string | null> = {
+  fallback: null,
+  parse: raw => {
+    const code = asText(raw).toUpperCase();
+    return COUNTRY_BY_ISO3.has(code) ? { value: code } : { warning: `unknown ISO3 country code "${code}"` };
+  },
+};
+
+const dayField: Field<DayBoundaryMode> = {
+  fallback: { kind: 'utc' },
+  parse: raw => {
+    const mode = parseDayBoundaryMode(asText(raw));
+    return mode ? { value: mode } : { warning: 'expected utc, local, country or an IANA time zone' };
+  },
+};
+
+// `auto` (null) follows the browser's preferred languages.
+const localeField: Field<string | null> = {
+  fallback: null,
+  parse: raw => {
+    const text = asText(raw);
+    if (text === 'auto') return { value: null };
+    const tag = parseLocaleTag(text);
+    return tag ? { value: tag } : { warning: `expected auto or a locale in ${SUPPORTED_LOCALES.join(', ')}` };
+  },
+};
+
+// Relative URLs resolve against the page; whatever they resolve to must use one of `protocols`.
+// Left empty, the setting is off rather than pointing back at the page itself.
+const urlField = (protocols: readonly string[]): Field<string | null> => ({
+  fallback: null,
+  parse: raw => {
+    const text = asText(raw);
+    if (!text) return { value: null };
+    let url: URL;
+    try {
+      url = new URL(text, window.location.href);
+    } catch {
+      return { warning: 'expected a URL' };
+    }
+    return protocols.includes(url.protocol)
+      ? { value: url.href }
+      : { warning: `expected a ${protocols.map(p => p.slice(0, -1)).join(' or ')} URL` };
+  },
+});
+
+const httpUrlField = urlField(['http:', 'https:']);
+const socketUrlField = urlField(['ws:', 'wss:']);
+
+// `WIDTHxHEIGHT` in pixels, e.g. `1080x1920`; even numbers keep video encoders happy.
+const sizeField: Field<{ width: number; height: number }> = {
+  fallback: { width: 1080, height: 1920 },
+  parse: raw => {
+    const match = /^(\d+)\s*x\s*(\d+)$/i.exec(asText(raw));
+    if (!match) return { warning: 'expected WIDTHxHEIGHT, e.g. 1080x1920' };
+    const [width, height] = [Number(match[1]), Number(match[2])];
+    if (Math.min(width, height) < 240 || Math.max(width, height) > 3840 || width % 2 || height % 2) {
+      return { warning: 'expected even sides from 240 to 3840 pixels' };
+    }
+    return { value: { width, height } };
+  },
+};
+
+// `COLSxROWS:COL,ROW`, e.g. `3x1:0,0` for the left screen of three side by side; `off` for none.
+const wallField: Field<WallTile | null> = {
+  fallback: null,
+  parse: raw => {
+    const text = asText(raw).toLowerCase();
+    if (text === 'off' || text === '') return { value: null };
+    const match = /^(\d+)x(\d+):(\d+),(\d+)$/.exec(text.replace(/\s+/g, ''));
+    if (!match) return { warning: 'expected COLSxROWS:COL,ROW, e.g. 3x1:0,0' };
+    const [cols, rows, col, row] = match.slice(1).map(Number);
+    if (!cols || !rows || cols > 16 || rows > 16 || col >= cols || row >= rows) {
+      return { warning: 'expected up to 16x16 screens, with COL and ROW counted from 0 inside the grid' };
+    }
+    return { value: { cols, rows, col, row } };
+  },
+};
+
+// Comma-separated metric ids, or a JSON array of them; births are always counted and need no entry.
+const metricsField: Field<MetricId[]> = {
+  fallback: [],
+  parse: raw => {
+    const items = (Array.isArray(raw) ? raw.map(asText) : asText(raw).split(',')).map(item => item.trim().toLowerCase());
+    if (items.length === 1 && ['none', 'off', ''].includes(items[0])) return { value: [] };
+    const value = [...new Set(items.filter((item): item is MetricId => METRIC_IDS.includes(item as MetricId) && item !== 'births'))];
+    const unknown = items.filter(item => item && !METRIC_IDS.includes(item as MetricId));
+    return unknown.length
+      ? { value, warning: `unknown metrics ${unknown.join(', ')} skipped; expected ${METRIC_IDS.slice(1).join(', ')}` }
+      : { value };
+  },
+};
+
+// Comma-separated `[METRIC:]EVERY[@ISO3|@focus]`, e.g. `100000,10000@focus,preterm:10000@IND`.
+// Births are the default metric and the whole world the default scope; `none` turns them off.
+const milestonesField: Field<MilestoneRule[]> = {
+  fallback: [
+    { metric: 'births', every: 100000, scope: null },
+    { metric: 'births', every: 10000, scope: 'focus' },
+  ],
+  parse: raw => {
+    const items = (Array.isArray(raw) ? raw.map(asText) : asText(raw).split(',')).map(item => item.trim()).filter(Boolean);
+    if (!items.length || (items.length === 1 && ['none', 'off'].includes(items[0].toLowerCase()))) return { value: [] };
+    const value: MilestoneRule[] = [];
+    const rejected: string[] = [];
+    items.forEach(item => {
+      const match = /^(?:([a-z-]+):)?(\d+)(?:@([a-z]{3}|focus))?$/i.exec(item.replace(/[\s_]/g, ''));
+      const metric = (match?.[1]?.toLowerCase() ?? 'births') as MetricId;
+      const every = Number(match?.[2]);
+      const scope = match?.[3] ? (match[3].toLowerCase() === 'focus' ? 'focus' : match[3].toUpperCase()) : null;
+      if (!match || !METRIC_IDS.includes(metric) || every < 10 || every > 1e9 || (scope && scope !== 'focus' && !COUNTRY_BY_ISO3.has(scope))) {
+        rejected.push(item);
+      } else {
+        value.push({ metric, every, scope });
+      }
+    });
+    return rejected.length
+      ? { value, warning: `${rejected.join(', ')} skipped; expected [METRIC:]EVERY[@ISO3], e.g. 100000 or 10000@focus, with EVERY from 10` }
+      : { value };
+  },
+};
+
+const HUD_MODES: readonly HudMode[] = ['full', 'minimal', 'off'];
+const DIGIT_STYLES: readonly DigitStyle[] = ['auto', 'latin', 'native'];
+const RATE_PROVIDERS: readonly BirthRateProviderKind[] = ['static', 'file', 'http'];
+const FEED_POSITIONS: readonly FeedPosition[] = ['bottom-left', 'bottom-right', 'top-right'];
+const MOTION_SETTINGS: readonly MotionSetting[] = ['auto', 'full', 'reduced'];
+const MARKER_STYLES: readonly MarkerStyle[] = ['ripple', 'pulse', 'country'];
+const METRIC_LAYOUTS: readonly MetricLayout[] = ['rotate', 'side'];
+
+export const CONFIG_SCHEMA: { [K in keyof AppConfig]: Field<AppConfig[K]> } = {
+  rotation: numberField(5, -60, 60), // Degrees per second
+  tilt: numberField(-15, -90, 90), // Degrees; negative tips the north pole towards the viewer
+  maxWidth: numberField(1920, 320, 7680, true),
+  maxHeight: numberField(1080, 240, 4320, true),
+  scale: numberField(1.2, 0.5, 2), // Globe canvas resolution relative to the layout size
+  stars: numberField(600, 0, 3000, true),
+  pacifiers: numberField(8, 0, 40, true),
+  comets: numberField(5, 0, 40, true),
+  fx: booleanField(true),
+  hud: enumField<HudMode>('full', HUD_MODES),
+  focus: countryField,
+  day: dayField,
+  geo: httpUrlField,
+  feed: numberField(5, 0, 12, true),
+  feedPos: enumField<FeedPosition>('bottom-left', FEED_POSITIONS),
+  stats: booleanField(true),
+  brand: textField(80),
+  title: textField(60),
+  locale: localeField,
+  digits: enumField<DigitStyle>('auto', DIGIT_STYLES),
+  theme: enumField<ThemeName>('brand', THEME_NAMES),
+  partner: textField(60), // Co-brand line under the brand, e.g. "with Partner Foundation"
+  offscreen: booleanField(true), // Draw the globe in a worker where OffscreenCanvas is supported
+  adaptive: booleanField(true), // Lower quality automatically to hold 60fps
+  debug: booleanField(false), // Frame-rate overlay; also toggled with the D key
+  terminator: booleanField(true), // Shade the night side of the globe
+  cityLights: booleanField(false), // Warm glow on the night side, brighter where births are densest
+  diurnal: booleanField(false), // Weight births by each country's local time of day
+  timeTravel: booleanField(true), // Drag the Daily Progress marker and replay past moments
+  rates: enumField<BirthRateProviderKind>('static', RATE_PROVIDERS), // Where birth figures come from
+  ratesUrl: httpUrlField, // CSV or JSON table for the file and http providers
+  ratesYear: numberField(0, 0, 2100, true), // 0 takes the latest year in the table
+  ratesCredit: textField(120), // Attribution for the footer when the data does not name its source
+  capture: booleanField(true), // Snapshot, recording and clip render buttons, revealed on hover
+  recordSeconds: numberField(10, 1, 120, true),
+  renderSize: sizeField, // Offline clip resolution
+  renderSeconds: numberField(15, 1, 120, true),
+  renderFps: numberField(30, 24, 60, true),
+  motion: enumField<MotionSetting>('auto', MOTION_SETTINGS), // Reduced: no comets or pacifiers, slow rotation, steady flashes
+  accessible: booleanField(false), // Larger, full-contrast HUD labels
+  announce: numberField(60, 0, 3600, true), // Seconds between screen-reader announcements; 0 turns them off
+  markers: enumField<MarkerStyle>('ripple', MARKER_STYLES),
+  arcs: booleanField(false), // Lines from the newest births to a country label beside the globe
+  sync: booleanField(false), // Keep the count, births, playback and rotation in step with other screens
+  syncUrl: socketUrlField, // WebSocket relay for screens on different machines; without it, windows of one browser
+  syncRoom: textField(40), // Screens sync with others in the same room
+  wall: wallField, // Part of a video wall: which tile of one globe spread over several screens
+  metrics: metricsField, // Counted alongside births: preterm, twins, maternal-deaths, postnatal-care
+  metricLayout: enumField<MetricLayout>('side', METRIC_LAYOUTS),
+  metricSeconds: numberField(8, 3, 120, true), // How long each metric holds the counter in the rotate layout
+  milestones: milestonesField, // Round numbers to celebrate, each for the world or one country
+  milestoneUrl: httpUrlField, // Local service that receives each milestone as a JSON POST
+  moments: numberField(5, 0, 12, true), // Recent milestones listed on screen; 0 hides the log
+};
+
+export const DEFAULT_CONFIG = Object.fromEntries(
+  Object.entries(CONFIG_SCHEMA).map(([key, field]) => [key, field.fallback])
+) as unknown as AppConfig;
+
+// Own keys only: `toString` and the like are inherited by every object and are not settings
+const isConfigKey = (key: string): key is keyof AppConfig => Object.hasOwn(CONFIG_SCHEMA, key);
+
+/**
+ * Layers raw settings over the defaults, later layers winning. Every value is validated and
+ * clamped; anything rejected or adjusted is reported rather than silently replaced. Unknown
+ * keys are reported for the file and localStorage, but ignored in the query string, which
+ * routinely carries unrelated parameters.
+ */
+export const resolveConfig = (layers: { source: ConfigSource; values: Record<string, unknown> }[]) => {
+  const config: Record<string, unknown> = { ...DEFAULT_CONFIG };
+  const warnings: ConfigWarning[] = [];
+  const setBy: Partial<Record<keyof AppConfig, ConfigSource>> = {};
+  layers.forEach(({ source, values }) => {
+    Object.entries(values).forEach(([key, raw]) => {
+      if (!isConfigKey(key)) {
+        if (source !== 'query') warnings.push({ source, key, message: 'unknown setting' });
+        return;
+      }
+      const { value, warning } = CONFIG_SCHEMA[key].parse(raw);
+      if (warning) warnings.push({ source, key, message: value === undefined ? `${warning}; ignored` : warning });
+      if (value === undefined) return;
+      config[key] = value;
+      setBy[key] = source;
+    });
+  });
+
+  // Each setting is valid alone, but a milestone for a metric that is not counted never fires
+  const { milestones, metrics } = config as unknown as AppConfig;
+  const idle = milestones.filter(rule => rule.metric !== 'births' && !metrics.includes(rule.metric));
+  if (idle.length) {
+    const rules = idle.map(rule => `${rule.metric}:${rule.every}${rule.scope ? `@${rule.scope}` : ''}`);
+    const missing = [...new Set(idle.map(rule => rule.metric))];
+    warnings.push({
+      source: setBy.milestones!,
+      key: 'milestones',
+      message: `${rules.join(', ')} will not fire until ${missing.join(', ')} ${missing.length > 1 ? 'are' : 'is'} added to metrics`,
+    });
+  }
+  return { config: config as unknown as AppConfig, warnings };
+};
+
+const readStorage = (warnings: ConfigWarning[]): Record<string, unknown> => {
+  try {
+    const stored = window.localStorage.getItem(CONFIG_STORAGE_KEY);
+    if (!stored) return {};
+    const data = JSON.parse(stored);
+    if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error('not a JSON object');
+    return data;
+  } catch (err) {
+    warnings.push({ source: 'localStorage', key: CONFIG_STORAGE_KEY, message: `unreadable (${(err as Error).message})` });
+    return {};
+  }
+};
+
+const readFile = async (url: string, required: boolean, warnings: ConfigWarning[]): Promise<Record<string, unknown>> => {
+  try {
+    const res = await fetch(url, { cache: 'no-cache' });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = await res.json();
+    if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error('not a JSON object');
+    return data;
+  } catch (err) {
+    if (required) warnings.push({ source: 'file', key: url, message: `could not be loaded (${(err as Error).message})` });
+    return {};
+  }
+};
+
+/**
+ * Reads the configuration for this screen from, in increasing priority: a JSON file
+ * (`?config=<url>`, else an optional `config.json`), localStorage and the query string.
+ */
+export const loadConfig = async (search = window.location.search) => {
+  const query = new URLSearchParams(search);
+  const loadWarnings: ConfigWarning[] = [];
+  const fileUrl = query.get('config');
+  const file = await readFile(fileUrl || DEFAULT_CONFIG_FILE, !!fileUrl, loadWarnings);
+  const stored = readStorage(loadWarnings);
+  query.delete('config');
+
+  const { config, warnings } = resolveConfig([
+    { source: 'file', values: file },
+    { source: 'localStorage', values: stored },
+    { source: 'query', values: Object.fromEntries(query) },
+  ]);
+  return { config, warnings: [...loadWarnings, ...warnings] };
+};
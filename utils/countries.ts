@@ -0,0 +1,48 @@
+import { CountryBirthRate } from '../types';
+
+// Alternate ids used by common world GeoJSON builds for countries whose ISO 3166 code is
+// newer than the dataset or was never assigned (e.g. Natural Earth's "-99" placeholders).
+const FEATURE_ID_ALIASES: Record<string, string[]> = {
+  SSD: ['SDS'],
+  XKX: ['CS-KM', 'KOS', 'RKS'],
+  PSE: ['WBG'],
+  ESH: ['SAH'],
+  TLS: ['TMP'],
+};
+
+const normalizeName = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+
+const featureCodes = (f: any): string[] => {
+  const p = f.properties || {};
+  return [f.id, p.ISO_A3, p.iso_a3, p.ADM0_A3, p.adm0_a3]
+    .map(c => (typeof c === 'number' ? String(c).padStart(3, '0') : c))
+    .filter((c): c is string => typeof c === 'string' && c !== '-99')
+    .map(c => c.toUpperCase());
+};
+
+/**
+ * Keys GeoJSON features by the ISO3 codes used in the rate table. Matches on feature id or ISO
+ * properties (alpha-3 or numeric) first, then known aliases, then country name. Codes without a
+ * match are returned so callers can surface them instead of the flash silently never drawing.
+ */
+export const buildFeatureIndex = (features: any[], rates: CountryBirthRate[]) => {
+  const byCode = new Map<string, any>();
+  const byName = new Map<string, any>();
+  features.forEach(f => {
+    featureCodes(f).forEach(code => { if (!byCode.has(code)) byCode.set(code, f); });
+    const name = f.properties?.name || f.properties?.NAME || f.properties?.ADMIN;
+    if (name) byName.set(normalizeName(name), f);
+  });
+
+  const index = new Map<string, any>();
+  const unresolved: string[] = [];
+  rates.forEach(({ iso3, isoNumeric, name }) => {
+    const feature = [iso3, isoNumeric, ...(FEATURE_ID_ALIASES[iso3] || [])]
+      .map(code => code && byCode.get(code))
+      .find(Boolean) || byName.get(normalizeName(name));
+    if (feature) index.set(iso3, feature);
+    else unresolved.push(iso3);
+  });
+  return { index, unresolved };
+};
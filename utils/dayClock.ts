@@ -0,0 +1,155 @@
+import { CountryBirthRate, DayBoundaryMode, DayProgress, DayWindows } from '../types';
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string) => {
+  let fmt = partsFormatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    partsFormatters.set(timeZone, fmt);
+  }
+  return fmt;
+};
+
+const wallClock = (timeZone: string, t: number) => {
+  const parts: Record<string, number> = {};
+  getPartsFormatter(timeZone).formatToParts(t).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  });
+  return parts;
+};
+
+/** Offset of `timeZone` from UTC at instant `t`, in milliseconds. */
+export const zoneOffsetMs = (timeZone: string, t: number) => {
+  const p = wallClock(timeZone, t);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - (t - (((t % 1000) + 1000) % 1000));
+};
+
+// Resolves the instant a wall-clock midnight occurs in `timeZone`. The offset is re-evaluated
+// at the first guess so days that start or end on a DST transition land on the right instant.
+const midnightInstant = (timeZone: string, y: number, m: number, d: number) => {
+  const wall = Date.UTC(y, m, d);
+  const guess = wall - zoneOffsetMs(timeZone, wall);
+  return wall - zoneOffsetMs(timeZone, guess);
+};
+
+/** Start and end instants of the calendar day containing `t` in `timeZone`. */
+export const zoneDayWindow = (timeZone: string, t: number) => {
+  const p = wallClock(timeZone, t);
+  return {
+    start: midnightInstant(timeZone, p.year, p.month - 1, p.day),
+    end: midnightInstant(timeZone, p.year, p.month - 1, p.day + 1),
+  };
+};
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+/** Calendar date of `t` in `timeZone` as `YYYY-MM-DD`, the value format of date inputs. */
+export const zoneDateKey = (timeZone: string, t: number) => {
+  const p = wallClock(timeZone, t);
+  return `${p.year}-${pad2(p.month)}-${pad2(p.day)}`;
+};
+
+/** The instant a `YYYY-MM-DD` date begins in `timeZone`. */
+export const zoneDateStart = (timeZone: string, dateKey: string) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return midnightInstant(timeZone, y, m - 1, d);
+};
+
+/**
+ * Offset of `timeZone` from UTC outside daylight saving time. Fixed reference dates keep it
+ * independent of when it is asked, so every screen derives the same value.
+ */
+export const standardOffsetMs = (timeZone: string) =>
+  Math.min(zoneOffsetMs(timeZone, Date.UTC(2026, 0, 1)), zoneOffsetMs(timeZone, Date.UTC(2026, 6, 1)));
+
+export const resolveTimeZone = (mode: DayBoundaryMode) => {
+  if (mode.kind === 'utc') return 'UTC';
+  if (mode.kind === 'timezone') return mode.timeZone;
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Parses a day boundary setting: `utc`, `local`, `country` or an IANA zone name. Returns null
+ * for anything else so the config layer can report it.
+ */
+export const parseDayBoundaryMode = (value: string): DayBoundaryMode | null => {
+  if (value === 'utc') return { kind: 'utc' };
+  if (value === 'local') return { kind: 'local' };
+  if (value === 'country' || value === 'per-country') return { kind: 'per-country' };
+  if (isValidTimeZone(value)) return { kind: 'timezone', timeZone: value };
+  return null;
+};
+
+/**
+ * Start and end of "today" for every country in `rates` (aligned by index) under the given
+ * mode, plus the earliest instant at which any of those windows rolls over.
+ */
+export const countryDayWindows = (mode: DayBoundaryMode, rates: CountryBirthRate[], now: number): DayWindows => {
+  const byZone = new Map<string, { start: number; end: number }>();
+  const windowFor = (timeZone: string) => {
+    let w = byZone.get(timeZone);
+    if (!w) { w = zoneDayWindow(timeZone, now); byZone.set(timeZone, w); }
+    return w;
+  };
+  const globalZone = mode.kind === 'per-country' ? null : resolveTimeZone(mode);
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let validUntil = Infinity;
+  rates.forEach(c => {
+    const w = windowFor(globalZone || c.timeZone);
+    starts.push(w.start);
+    ends.push(w.end);
+    validUntil = Math.min(validUntil, w.end);
+  });
+  return { starts, ends, validUntil };
+};
+
+/**
+ * Daily Progress figures for the given boundary mode. In per-country mode the progress is the
+ * birth-weighted share of each country's own day that has elapsed, shown as an average clock.
+ * Formatting the clock is left to the HUD so it follows the display locale.
+ */
+export const computeDayProgress = (
+  mode: DayBoundaryMode,
+  rates: CountryBirthRate[],
+  windows: DayWindows,
+  now: number
+): DayProgress => {
+  if (mode.kind !== 'per-country') {
+    const timeZone = resolveTimeZone(mode);
+    const { start, end } = zoneDayWindow(timeZone, now);
+    const wall = wallClock(timeZone, now);
+    return {
+      pct: ((now - start) / (end - start)) * 100,
+      minuteOfDay: wall.hour * 60 + wall.minute,
+      dayMs: end - start,
+    };
+  }
+
+  let elapsed = 0;
+  let fullDay = 0;
+  let weight = 0;
+  rates.forEach((c, i) => {
+    elapsed += c.birthsPerYear * (now - windows.starts[i]);
+    fullDay += c.birthsPerYear * (windows.ends[i] - windows.starts[i]);
+    weight += c.birthsPerYear;
+  });
+  const pct = fullDay > 0 ? (elapsed / fullDay) * 100 : 0;
+  return { pct, minuteOfDay: Math.floor(pct / 100 * 1440), dayMs: weight > 0 ? fullDay / weight : 86400000 };
+};
@@ -0,0 +1,29 @@
+import { createGlobeRenderer, GlobeRenderer } from './globeRenderer';
+import type { GlobeMessage, GlobeReply } from './globeSurface';
+
+// The project compiles against the DOM lib only; this is the slice of the worker scope used here.
+const scope = self as unknown as Worker;
+let renderer: GlobeRenderer | null = null;
+let canvas: OffscreenCanvas | null = null;
+
+const reply = (msg: GlobeReply, transfer: Transferable[] = []) => scope.postMessage(msg, transfer);
+
+scope.onmessage = (e: MessageEvent<GlobeMessage>) => {
+  const msg = e.data;
+  if (msg.type === 'init') {
+    canvas = msg.canvas;
+    renderer = createGlobeRenderer(msg.canvas);
+    return;
+  }
+  if (!renderer || !canvas) return;
+  switch (msg.type) {
+    case 'geometry': renderer.setGeometry(msg.geometry); break;
+    case 'theme': renderer.setTheme(msg.theme); break;
+    case 'stars': renderer.setStars(msg.count); break;
+    case 'resize': renderer.resize(msg.width, msg.height, msg.scale); break;
+    case 'draw': reply({ type: 'drawn', ms: renderer.draw(msg.frame) }); break;
+    case 'snapshot':
+      createImageBitmap(canvas).then(bitmap => reply({ type: 'snapshot', bitmap }, [bitmap]));
+      break;
+  }
+};
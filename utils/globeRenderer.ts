@@ -0,0 +1,489 @@
+import * as d3 from 'd3';
+import { MarkerStyle, Theme } from '../types';
+import { hashUnit } from './birthSimulation';
+import { withAlpha } from './color';
+
+// How long a birth stays marked, in real time however fast the clock runs
+export const FLASH_DURATION_MS = 2200;
+
+/** A birth on the globe, with how far through its marker it is, from 0 to 1. */
+export interface BirthMarker {
+  iso3: string;
+  /** Where in the country it happened as [lon, lat]; null until the map has loaded. */
+  point: [number, number] | null;
+  progress: number;
+  /** Set for the events of other metrics, which have their own look; births follow the frame. */
+  style?: MarkerStyle;
+  color?: string;
+}
+
+/** Everything the globe layer needs for one frame. Lengths are in canvas pixels. */
+export interface GlobeFrame {
+  rotate: [number, number];
+  radius: number;
+  center: [number, number];
+  markers: BirthMarker[];
+  markerStyle: MarkerStyle;
+  /** Draws a line from the newest visible births to their country code beside the globe. */
+  arcs: boolean;
+  selected: string | null;
+  detail: number;
+  shadows: boolean;
+  twinkle: boolean;
+  /** Elapsed time in 60fps frames, for the twinkle random walk. */
+  dtFactor: number;
+  /** Centre of the night hemisphere as [lon, lat], or null to light the globe evenly. */
+  night: [number, number] | null;
+  cityLights: boolean;
+}
+
+export interface GlobeGeometry {
+  /** GeoJSON FeatureCollection; every feature carries the `centroid` added by the loader. */
+  collection: any;
+  /** ISO3 code of each feature, aligned with `collection.features`. */
+  codes: (string | null)[];
+  /** Yearly births of each feature's country in the loaded dataset, aligned likewise. */
+  births: (number | null)[];
+}
+
+export interface GlobeRenderer {
+  setGeometry(geometry: GlobeGeometry | null): void;
+  setTheme(theme: Theme): void;
+  setStars(count: number): void;
+  /** Layout size in CSS pixels; the backing store is `scale` times larger. */
+  resize(width: number, height: number, scale: number): void;
+  /** Draws a frame and returns how long it took, in milliseconds. */
+  draw(frame: GlobeFrame): number;
+}
+
+interface Star {
+  x: number;
+  y: number;
+  size: number;
+  opacity: number;
+  twinkle: number;
+}
+
+interface GlobeFeature {
+  centroid: [number, number];
+  /** Angular distance from the centroid to the furthest vertex, for back-face culling. */
+  reach: number;
+  code: string | null;
+  /** City-lights brightness from 0 to 1. */
+  light: number;
+}
+
+// Vertex spacing, in degrees, below which points are dropped at each geometry detail level
+const DETAIL_TOLERANCES = [0, 0.35, 1];
+export const GEOMETRY_DETAIL_LEVELS = DETAIL_TOLERANCES.length;
+
+// Radii, in degrees, of the nested circles that shade the night side. Each adds a layer of the
+// theme's night colour, so the terminator fades in across twilight rather than at a hard edge.
+const NIGHT_LAYERS = [96, 92, 88, 84];
+const NIGHT_LAYER_ALPHA = 0.4;
+
+// Only these stars are redrawn each frame; the rest sit in a pre-rendered layer
+const TWINKLE_STARS = 40;
+// Star positions come from a fixed seed, so every render of the same moment has the same sky
+const STAR_SEED = 0x57a25;
+const HALF_PI = Math.PI / 2;
+
+// Births on the far side light the rim in their direction, gathered into this many sectors
+const LIMB_SECTORS = 48;
+// How many of the newest visible births get an arc, and for how much of their marker's life
+const ARC_LIMIT = 3;
+const ARC_SPAN = 0.7;
+// Marker sizes are set for a globe of this radius and scale with it
+const MARKER_REFERENCE_RADIUS = 300;
+
+type Layer = HTMLCanvasElement | OffscreenCanvas;
+
+const createLayer = (width: number, height: number): Layer => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  return Object.assign(document.createElement('canvas'), { width, height });
+};
+
+const thinRing = (ring: number[][], tolerance: number) => {
+  if (ring.length <= 4) return ring;
+  const kept = [ring[0]];
+  for (let i = 1; i < ring.length - 1; i++) {
+    const [x, y] = kept[kept.length - 1];
+    if (Math.abs(ring[i][0] - x) + Math.abs(ring[i][1] - y) >= tolerance) kept.push(ring[i]);
+  }
+  kept.push(ring[ring.length - 1]);
+  return kept.length >= 4 ? kept : ring;
+};
+
+const simplifyFeature = (f: any, tolerance: number) => {
+  const g = f.geometry;
+  if (!g || tolerance <= 0 || (g.type !== 'Polygon' && g.type !== 'MultiPolygon')) return f;
+  const polygons: number[][][][] = g.type === 'Polygon' ? [g.coordinates] : g.coordinates;
+  const thinned = polygons.map(rings => rings.map(ring => thinRing(ring, tolerance)));
+  return { ...f, geometry: { type: g.type, coordinates: g.type === 'Polygon' ? thinned[0] : thinned } };
+};
+
+const featureReach = (f: any) => {
+  let reach = 0;
+  const visit = (coords: any) => {
+    if (typeof coords[0] === 'number') reach = Math.max(reach, d3.geoDistance(f.centroid, coords));
+    else coords.forEach(visit);
+  };
+  if (f.geometry) visit(f.geometry.coordinates);
+  return reach;
+};
+
+// Birth density on a log scale, normalised across the map, stands in for urban light
+const lightLevels = (features: any[], births: (number | null)[]) => {
+  const densities = features.map((f, i) => {
+    const area = d3.geoArea(f);
+    return births[i] && area > 0 ? Math.log10(births[i]! / area) : null;
+  });
+  const known = densities.filter((d): d is number => d !== null);
+  const lo = Math.min(...known);
+  const span = Math.max(...known) - lo || 1;
+  return densities.map(d => (d === null ? 0 : (d - lo) / span));
+};
+
+/**
+ * Draws the globe layer: background, starfield, ocean, land, birth markers and lighting. Has no DOM
+ * dependencies beyond the canvas it is given, so it runs unchanged in a worker against an
+ * OffscreenCanvas or on the main thread as a fallback.
+ */
+export const createGlobeRenderer = (canvas: HTMLCanvasElement | OffscreenCanvas): GlobeRenderer => {
+  const ctx = canvas.getContext('2d', { alpha: false }) as CanvasRenderingContext2D;
+  const projection = d3.geoOrthographic().clipAngle(90);
+  const path = d3.geoPath(projection, ctx);
+  const graticule = d3.geoGraticule10();
+  const nightCircle = d3.geoCircle();
+
+  let theme: Theme | null = null;
+  let features: GlobeFeature[] = [];
+  let sourceFeatures: any[] = [];
+  const featureIndex = new Map<string, number>();
+  const detailCache = new Map<number, any[]>();
+  let stars: Star[] = [];
+  let starLayer: Layer | null = null;
+  let gradients: { [key: string]: CanvasGradient } = {};
+  let gradientKey = '';
+  let nightFill = '';
+
+  const featuresAt = (detail: number) => {
+    const level = Math.max(0, Math.min(GEOMETRY_DETAIL_LEVELS - 1, detail));
+    let cached = detailCache.get(level);
+    if (!cached) {
+      cached = sourceFeatures.map(f => simplifyFeature(f, DETAIL_TOLERANCES[level]));
+      detailCache.set(level, cached);
+    }
+    return cached;
+  };
+
+  const buildStarLayer = () => {
+    starLayer = null;
+    if (!theme || !canvas.width || !canvas.height) return;
+    const layer = createLayer(canvas.width, canvas.height);
+    const lctx = layer.getContext('2d') as CanvasRenderingContext2D;
+    lctx.fillStyle = theme.colors.STAR;
+    for (let i = TWINKLE_STARS; i < stars.length; i++) {
+      const s = stars[i];
+      lctx.globalAlpha = s.opacity;
+      lctx.beginPath();
+      lctx.arc(s.x * canvas.width, s.y * canvas.height, s.size, 0, Math.PI * 2);
+      lctx.fill();
+    }
+    starLayer = layer;
+  };
+
+  const draw = (frame: GlobeFrame) => {
+    const start = performance.now();
+    if (!theme) return 0;
+    const { colors } = theme;
+    const [cx, cy] = frame.center;
+    const r = frame.radius;
+    projection.translate(frame.center).rotate([frame.rotate[0], frame.rotate[1], 0]).scale(r);
+    // Whatever point sits under the globe's centre, for culling under any rotation or tilt
+    const center = projection.invert(frame.center);
+
+    ctx.fillStyle = colors.BACKGROUND;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    if (theme.stars) {
+      if (starLayer) ctx.drawImage(starLayer, 0, 0);
+      ctx.fillStyle = colors.STAR;
+      for (let i = 0; i < Math.min(TWINKLE_STARS, stars.length); i++) {
+        const s = stars[i];
+        if (frame.twinkle) {
+          s.opacity += (Math.random() - 0.5) * s.twinkle * frame.dtFactor;
+          if (Math.random() < 0.0004) {
+            s.opacity = 0.8 + Math.random() * 0.2;
+          } else if (Math.random() < 0.0002) {
+            s.opacity = 0.02;
+          }
+          s.opacity = Math.max(0.05, Math.min(0.9, s.opacity));
+        }
+        ctx.globalAlpha = s.opacity;
+        ctx.beginPath();
+        ctx.arc(s.x * canvas.width, s.y * canvas.height, s.size, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    const key = `${cx},${cy},${r}`;
+    if (key !== gradientKey) {
+      gradients = {};
+      gradientKey = key;
+    }
+
+    if (!gradients.ocean) {
+      gradients.ocean = ctx.createRadialGradient(cx - r * 0.4, cy - r * 0.4, 0, cx, cy, r);
+      gradients.ocean.addColorStop(0, colors.OCEAN_BRIGHT);
+      gradients.ocean.addColorStop(1, colors.OCEAN_DEEP);
+    }
+    ctx.fillStyle = gradients.ocean;
+    ctx.beginPath(); ctx.arc(cx, cy, r, 0, Math.PI * 2); ctx.fill();
+
+    // Draw landmasses, or a graticule while geometry is loading or unavailable. Features
+    // entirely on the far side are skipped rather than projected and clipped away.
+    if (features.length) {
+      const detailed = featuresAt(frame.detail);
+      ctx.beginPath();
+      features.forEach((f, i) => {
+        if (d3.geoDistance(f.centroid, center) - f.reach < HALF_PI) path(detailed[i]);
+      });
+      ctx.fillStyle = colors.LAND_BASE;
+      ctx.fill();
+      ctx.strokeStyle = colors.LAND_BORDER;
+      ctx.lineWidth = 1.2;
+      ctx.stroke();
+    } else {
+      ctx.beginPath(); path(graticule);
+      ctx.strokeStyle = colors.GRATICULE;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    }
+
+    if (!gradients.rimShadow) {
+      gradients.rimShadow = ctx.createRadialGradient(cx, cy, r * 0.8, cx, cy, r);
+      gradients.rimShadow.addColorStop(0, 'rgba(0,0,0,0)');
+      gradients.rimShadow.addColorStop(1, colors.RIM_SHADOW);
+    }
+    ctx.fillStyle = gradients.rimShadow;
+    ctx.beginPath(); ctx.arc(cx, cy, r, 0, Math.PI * 2); ctx.fill();
+
+    if (frame.night) {
+      nightCircle.center(frame.night);
+      ctx.fillStyle = nightFill;
+      NIGHT_LAYERS.forEach(radius => {
+        ctx.beginPath(); path(nightCircle.radius(radius)()); ctx.fill();
+      });
+
+      if (frame.cityLights && features.length) {
+        const detailed = featuresAt(frame.detail);
+        ctx.save();
+        ctx.beginPath(); path(nightCircle.radius(90)()); ctx.clip();
+        ctx.fillStyle = colors.CITY_LIGHTS;
+        features.forEach((f, i) => {
+          if (f.light <= 0 || d3.geoDistance(f.centroid, center) - f.reach >= HALF_PI) return;
+          ctx.globalAlpha = 0.08 + f.light * 0.45;
+          ctx.beginPath(); path(detailed[i]); ctx.fill();
+        });
+        ctx.restore();
+      }
+    }
+
+    // Sort the births into the near side, drawn where they are, and the far side, which feeds
+    // the rim. Country flashes are placed by the country's centroid, as its fill is culled by.
+    const unit = r / MARKER_REFERENCE_RADIUS;
+    const styleOf = (marker: BirthMarker) => marker.style ?? frame.markerStyle;
+    const visible: { marker: BirthMarker; x: number; y: number }[] = [];
+    const limb = new Float32Array(LIMB_SECTORS);
+    frame.markers.forEach(marker => {
+      const i = featureIndex.get(marker.iso3);
+      const centroid: [number, number] | null = i === undefined ? null : features[i].centroid;
+      const point = styleOf(marker) === 'country' ? centroid ?? marker.point : marker.point ?? centroid;
+      if (!point) return;
+      const [x, y] = projection(point)!;
+      if (d3.geoDistance(point, center) < HALF_PI) {
+        visible.push({ marker, x, y });
+      } else {
+        // Unclipped, a far-side point projects onto the disc in the direction of the nearest rim
+        const angle = Math.atan2(y - cy, x - cx);
+        const sector = Math.floor(((angle + Math.PI) / (2 * Math.PI)) * LIMB_SECTORS) % LIMB_SECTORS;
+        limb[sector] += 1 - marker.progress;
+      }
+    });
+
+    if (features.length) {
+      const detailed = featuresAt(frame.detail);
+      const lit = new Set<string>();
+      // Newest first, so a country with several births shows its latest
+      for (let k = visible.length - 1; k >= 0; k--) {
+        const { marker } = visible[k];
+        const i = featureIndex.get(marker.iso3);
+        if (styleOf(marker) !== 'country' || i === undefined || lit.has(marker.iso3)) continue;
+        lit.add(marker.iso3);
+        const t = marker.progress;
+        const vibrant = marker.color ?? colors.YELLOW_VIBRANT;
+        ctx.save();
+        ctx.beginPath(); path(detailed[i]);
+        const intensity = Math.pow(1 - t, 0.4);
+        const flashColor = d3.interpolateRgb(
+          d3.interpolateRgb(marker.color ?? colors.YELLOW_PEAK, vibrant)(t * 1.5),
+          colors.LAND_BASE
+        )(t);
+        if (frame.shadows) {
+          ctx.shadowBlur = 60 * intensity;
+          ctx.shadowColor = vibrant;
+        }
+        ctx.fillStyle = flashColor;
+        ctx.fill();
+        ctx.restore();
+      }
+    }
+
+    ctx.save();
+    visible.forEach(({ marker, x, y }) => {
+      const style = styleOf(marker);
+      if (style === 'country') return;
+      const t = marker.progress;
+      if (frame.shadows) ctx.shadowColor = marker.color ?? colors.YELLOW_VIBRANT;
+      if (style === 'ripple') {
+        ctx.beginPath();
+        ctx.arc(x, y, unit * (3 + 22 * t), 0, Math.PI * 2);
+        ctx.strokeStyle = withAlpha(marker.color ?? colors.YELLOW_VIBRANT, 1 - t);
+        ctx.lineWidth = Math.max(0.5, unit * 2.5 * (1 - t));
+        ctx.stroke();
+      }
+      // The ripple's centre dot, or on its own a dot that swells and fades
+      const size = style === 'pulse' ? 2.5 + 4 * Math.sin(Math.PI * Math.min(1, t * 1.5)) : 2.5;
+      if (frame.shadows) ctx.shadowBlur = 12 * unit * (1 - t);
+      ctx.beginPath();
+      ctx.arc(x, y, unit * size, 0, Math.PI * 2);
+      ctx.fillStyle = withAlpha(marker.color ?? colors.YELLOW_PEAK, Math.pow(1 - t, 0.5));
+      ctx.fill();
+    });
+    ctx.restore();
+
+    if (features.length) {
+      const detailed = featuresAt(frame.detail);
+      const selected = frame.selected !== null ? featureIndex.get(frame.selected) : undefined;
+      if (selected !== undefined) {
+        ctx.beginPath(); path(detailed[selected]);
+        ctx.strokeStyle = colors.GOLD;
+        ctx.lineWidth = 3;
+        ctx.stroke();
+      }
+    }
+
+    if (!gradients.spec) {
+      gradients.spec = ctx.createRadialGradient(cx - r * 0.4, cy - r * 0.4, 0, cx - r * 0.4, cy - r * 0.4, r * 1.4);
+      gradients.spec.addColorStop(0, colors.SPECULAR);
+      gradients.spec.addColorStop(1, 'rgba(0,0,0,0)');
+    }
+    ctx.fillStyle = gradients.spec;
+    ctx.beginPath(); ctx.arc(cx, cy, r, 0, Math.PI * 2); ctx.fill();
+
+    if (!gradients.atmo) {
+      gradients.atmo = ctx.createRadialGradient(cx, cy, r, cx, cy, r * 1.15);
+      gradients.atmo.addColorStop(0, colors.ATMOSPHERE);
+      gradients.atmo.addColorStop(0.3, colors.ATMOSPHERE_FADE);
+      gradients.atmo.addColorStop(1, 'rgba(0,0,0,0)');
+    }
+    ctx.fillStyle = gradients.atmo;
+    ctx.beginPath(); ctx.arc(cx, cy, r * 1.15, 0, Math.PI * 2); ctx.fill();
+
+    // Far-side births glow on the rim, brighter the more and fresher they are
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineWidth = Math.max(1.5, unit * 4);
+    if (frame.shadows) {
+      ctx.shadowColor = colors.YELLOW_VIBRANT;
+      ctx.shadowBlur = 18 * unit;
+    }
+    const sectorArc = (2 * Math.PI) / LIMB_SECTORS;
+    limb.forEach((weight, sector) => {
+      if (weight <= 0.01) return;
+      const mid = -Math.PI + (sector + 0.5) * sectorArc;
+      ctx.beginPath();
+      ctx.arc(cx, cy, r * 1.015, mid - sectorArc * 0.45, mid + sectorArc * 0.45);
+      ctx.strokeStyle = withAlpha(colors.YELLOW_VIBRANT, Math.min(0.9, 0.2 + 0.3 * weight));
+      ctx.stroke();
+    });
+    ctx.restore();
+
+    if (frame.arcs) {
+      ctx.save();
+      ctx.font = `bold ${Math.round(11 * unit)}px ${theme.fonts.ui}`;
+      ctx.textBaseline = 'middle';
+      ctx.lineWidth = Math.max(1, unit * 1.2);
+      visible
+        .filter(v => v.marker.progress < ARC_SPAN)
+        .sort((a, b) => a.marker.progress - b.marker.progress)
+        .slice(0, ARC_LIMIT)
+        .forEach(({ marker, x, y }) => {
+          // The label sits just off the rim, straight out from the centre through the birth
+          const dx = x - cx;
+          const dy = y - cy;
+          const len = Math.hypot(dx, dy) || 1;
+          const [ux, uy] = len > 1 ? [dx / len, dy / len] : [0, -1];
+          const lx = cx + ux * r * 1.12;
+          const ly = cy + uy * r * 1.12;
+          const alpha = 1 - marker.progress / ARC_SPAN;
+          ctx.beginPath();
+          ctx.moveTo(x, y);
+          ctx.quadraticCurveTo(x + ux * r * 0.2 - uy * r * 0.06, y + uy * r * 0.2 + ux * r * 0.06, lx, ly);
+          ctx.strokeStyle = withAlpha(marker.color ?? colors.YELLOW_VIBRANT, alpha * 0.8);
+          ctx.stroke();
+          ctx.textAlign = ux >= 0 ? 'left' : 'right';
+          ctx.fillStyle = withAlpha(marker.color ?? colors.YELLOW_PEAK, alpha);
+          ctx.fillText(marker.iso3, lx + (ux >= 0 ? 4 : -4) * unit, ly);
+        });
+      ctx.restore();
+    }
+
+    return performance.now() - start;
+  };
+
+  return {
+    setGeometry: geometry => {
+      sourceFeatures = geometry ? geometry.collection.features : [];
+      const lights = geometry ? lightLevels(sourceFeatures, geometry.births) : [];
+      features = sourceFeatures.map((f, i) => ({
+        centroid: f.centroid,
+        reach: featureReach(f),
+        code: geometry!.codes[i],
+        light: lights[i],
+      }));
+      featureIndex.clear();
+      features.forEach((f, i) => { if (f.code) featureIndex.set(f.code, i); });
+      detailCache.clear();
+    },
+    setTheme: next => {
+      // Cached gradients and the star layer bake in theme colours
+      theme = next;
+      nightFill = withAlpha(next.colors.NIGHT, NIGHT_LAYER_ALPHA);
+      gradients = {};
+      gradientKey = '';
+      buildStarLayer();
+    },
+    setStars: count => {
+      stars = Array.from({ length: count }, (_, i) => ({
+        x: hashUnit(STAR_SEED, 0, i),
+        y: hashUnit(STAR_SEED, 1, i),
+        size: hashUnit(STAR_SEED, 2, i) * 1.5,
+        opacity: hashUnit(STAR_SEED, 3, i),
+        twinkle: hashUnit(STAR_SEED, 4, i) * 0.02,
+      }));
+      buildStarLayer();
+    },
+    resize: (width, height, scale) => {
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      ctx.imageSmoothingEnabled = true;
+      gradients = {};
+      gradientKey = '';
+      buildStarLayer();
+    },
+    draw,
+  };
+};
@@ -0,0 +1,176 @@
+import { Theme } from '../types';
+import { createGlobeRenderer, GlobeFrame, GlobeGeometry } from './globeRenderer';
+import globeWorkerUrl from './globe.worker.ts?worker&url';
+
+export type GlobeMessage =
+  | { type: 'init'; canvas: OffscreenCanvas }
+  | { type: 'geometry'; geometry: GlobeGeometry | null }
+  | { type: 'theme'; theme: Theme }
+  | { type: 'stars'; count: number }
+  | { type: 'resize'; width: number; height: number; scale: number }
+  | { type: 'draw'; frame: GlobeFrame }
+  | { type: 'snapshot' };
+
+export type GlobeReply =
+  | { type: 'drawn'; ms: number }
+  | { type: 'snapshot'; bitmap: ImageBitmap };
+
+export interface GlobeSurface {
+  /** True when frames are drawn by a worker into an OffscreenCanvas. */
+  readonly offscreen: boolean;
+  setGeometry(geometry: GlobeGeometry | null): void;
+  setTheme(theme: Theme): void;
+  setStars(count: number): void;
+  resize(width: number, height: number, scale: number): void;
+  draw(frame: GlobeFrame): void;
+  /** True while the previous frame is still being drawn; callers skip a frame rather than queue one. */
+  busy(): boolean;
+  /** Duration of the last completed draw, in milliseconds. */
+  lastDrawMs(): number;
+  /** A copy of the last frame drawn, for compositing captures. */
+  snapshot(): Promise<ImageBitmap>;
+  dispose(): void;
+}
+
+// Draws synchronously into `canvas` on the main thread
+const createCanvasSurface = (canvas: HTMLCanvasElement): GlobeSurface => {
+  const renderer = createGlobeRenderer(canvas);
+  let drawMs = 0;
+  return {
+    offscreen: false,
+    setGeometry: renderer.setGeometry,
+    setTheme: renderer.setTheme,
+    setStars: renderer.setStars,
+    resize: renderer.resize,
+    draw: frame => { drawMs = renderer.draw(frame); },
+    busy: () => false,
+    lastDrawMs: () => drawMs,
+    snapshot: () => createImageBitmap(canvas),
+    dispose: () => {},
+  };
+};
+
+// Pages may only start workers from their own origin. Loaded from elsewhere, as the embed is on
+// a partner's page, the worker is started from a same-origin Blob module that imports it; that
+// needs the same CORS headers the host already sends for the embed's own module script.
+const startWorker = () => {
+  const url = new URL(globeWorkerUrl, window.location.href);
+  if (url.origin === window.location.origin) return new Worker(url, { type: 'module' });
+  const loader = URL.createObjectURL(new Blob([`import ${JSON.stringify(url.href)};`], { type: 'text/javascript' }));
+  try {
+    return new Worker(loader, { type: 'module' });
+  } finally {
+    // The worker has its own reference to the script once it starts loading
+    setTimeout(() => URL.revokeObjectURL(loader), 10000);
+  }
+};
+
+const createWorkerSurface = (canvas: HTMLCanvasElement, onFallback: (reason: string) => void): GlobeSurface | null => {
+  if (typeof Worker === 'undefined' || typeof canvas.transferControlToOffscreen !== 'function') return null;
+  let worker: Worker | null = null;
+  try {
+    worker = startWorker();
+    const offscreen = canvas.transferControlToOffscreen();
+    worker.postMessage({ type: 'init', canvas: offscreen } satisfies GlobeMessage, [offscreen]);
+  } catch (err) {
+    console.warn('Offscreen globe rendering unavailable, drawing on the main thread', err);
+    worker?.terminate();
+    onFallback(`the globe worker could not start (${(err as Error).message})`);
+    return null;
+  }
+
+  let pending = false;
+  let drawMs = 0;
+  // Snapshot requests are answered in order, so a queue of callbacks is enough to match them up
+  const snapshots: { resolve: (bitmap: ImageBitmap) => void; reject: (err: Error) => void }[] = [];
+  // The state last sent, for a main-thread stand-in to start from if the worker dies
+  let geometry: GlobeGeometry | null = null;
+  let theme: Theme | null = null;
+  let stars: number | null = null;
+  let size: [number, number, number] | null = null;
+  let fallback: GlobeSurface | null = null;
+  let standIn: HTMLCanvasElement | null = null;
+
+  worker.onmessage = (e: MessageEvent<GlobeReply>) => {
+    if (e.data.type === 'snapshot') {
+      snapshots.shift()?.resolve(e.data.bitmap);
+      return;
+    }
+    pending = false;
+    drawMs = e.data.ms;
+  };
+  // A transferred canvas can never be drawn from this thread again, so a fresh one takes its place
+  // underneath. The original stays on top, cleared to transparent, to keep receiving pointer input.
+  worker.onerror = err => {
+    console.error('Globe worker failed, drawing on the main thread instead', err);
+    onFallback(`the globe worker failed (${err.message || 'it could not be loaded'})`);
+    worker!.terminate();
+    pending = false;
+    snapshots.splice(0).forEach(s => s.reject(new Error('The globe renderer stopped')));
+    standIn = document.createElement('canvas');
+    standIn.className = canvas.className;
+    standIn.setAttribute('aria-hidden', 'true');
+    standIn.style.pointerEvents = 'none';
+    canvas.before(standIn);
+    canvas.style.opacity = '0';
+    fallback = createCanvasSurface(standIn);
+    if (size) fallback.resize(...size);
+    if (theme) fallback.setTheme(theme);
+    if (stars !== null) fallback.setStars(stars);
+    fallback.setGeometry(geometry);
+  };
+  const send = (msg: GlobeMessage) => worker!.postMessage(msg);
+
+  return {
+    get offscreen() { return !fallback; },
+    setGeometry: next => {
+      geometry = next;
+      if (fallback) fallback.setGeometry(next);
+      else send({ type: 'geometry', geometry: next });
+    },
+    setTheme: next => {
+      theme = next;
+      if (fallback) fallback.setTheme(next);
+      else send({ type: 'theme', theme: next });
+    },
+    setStars: count => {
+      stars = count;
+      if (fallback) fallback.setStars(count);
+      else send({ type: 'stars', count });
+    },
+    resize: (width, height, scale) => {
+      size = [width, height, scale];
+      if (fallback) fallback.resize(width, height, scale);
+      else send({ type: 'resize', width, height, scale });
+    },
+    draw: frame => {
+      if (fallback) return fallback.draw(frame);
+      pending = true;
+      send({ type: 'draw', frame });
+    },
+    busy: () => pending,
+    lastDrawMs: () => fallback?.lastDrawMs() ?? drawMs,
+    snapshot: () => fallback ? fallback.snapshot() : new Promise((resolve, reject) => {
+      snapshots.push({ resolve, reject });
+      send({ type: 'snapshot' });
+    }),
+    dispose: () => {
+      worker!.terminate();
+      standIn?.remove();
+    },
+  };
+};
+
+/**
+ * The globe layer behind one canvas. Drawing moves to a worker when the browser can hand the
+ * canvas over as an OffscreenCanvas, and otherwise happens synchronously on the main thread, as it
+ * also does from a stand-in canvas if the worker fails later on. A worker that cannot start or
+ * that fails is reported through `onFallback`; a browser without OffscreenCanvas is not.
+ * Once transferred, the canvas can only be sized and drawn through this surface.
+ */
+export const createGlobeSurface = (
+  canvas: HTMLCanvasElement,
+  preferWorker = true,
+  onFallback: (reason: string) => void = () => {}
+): GlobeSurface =>
+  (preferWorker ? createWorkerSurface(canvas, onFallback) : null) ?? createCanvasSurface(canvas);
@@ -0,0 +1,423 @@
+import { Continent, CountryBirthRate, DayBoundaryMode, DigitStyle, LocaleCode, MetricId } from '../types';
+import { resolveTimeZone } from './dayClock';
+
+export interface Messages {
+  brand: string;
+  title: string;
+  dailyProgress: string;
+  zoneLocal: string;
+  zonePerCountry: string;
+  perMinute: string;
+  perHour: string;
+  /** `{minutes}` is replaced with the sparkline window length. */
+  sparkline: string;
+  topCountries: string;
+  byContinent: string;
+  recentBirths: string;
+  birthsToday: string;
+  mapLoading: string;
+  mapUnavailable: string;
+  live: string;
+  replay: string;
+  play: string;
+  pause: string;
+  replayDate: string;
+  /** `{source}` and `{year}` are replaced with the dataset attribution and year. */
+  dataSource: string;
+  snapshot: string;
+  /** `{seconds}` is replaced with the recording length. */
+  record: string;
+  /** `{size}` is replaced with the clip resolution. */
+  renderClip: string;
+  recording: string;
+  /** `{percent}` is replaced with how much of the clip is done. */
+  rendering: string;
+  cancel: string;
+  /** Screen-reader update; `{count}` is today's total and `{rate}` the births in the last minute. */
+  announcement: string;
+  /** Text alternative for the globe. */
+  globeDescription: string;
+  milestone: string;
+  /** Where a milestone counted the whole world rather than one country. */
+  worldwide: string;
+  moments: string;
+  continents: Record<Continent, string>;
+  /** Metric names for their counters; the births counter keeps `title`. */
+  metrics: Record<MetricId, string>;
+}
+
+// --- Catalog ---
+
+export const MESSAGES: Record<LocaleCode, Messages> = {
+  en: {
+    brand: "Mother & Child Care — Women's Health",
+    title: 'Global birth count today',
+    dailyProgress: 'Daily Progress',
+    zoneLocal: 'Local',
+    zonePerCountry: 'Per country',
+    perMinute: 'Per minute',
+    perHour: 'Per hour',
+    sparkline: 'Births / min · last {minutes} min',
+    topCountries: 'Top countries today',
+    byContinent: 'By continent',
+    recentBirths: 'Recent births',
+    birthsToday: 'Births today',
+    mapLoading: 'Loading world map…',
+    mapUnavailable: 'World map unavailable',
+    live: 'LIVE',
+    replay: 'Replay',
+    play: 'Play',
+    pause: 'Pause',
+    replayDate: 'Replay date',
+    dataSource: 'Birth data: {source}, {year}',
+    snapshot: 'Snapshot',
+    record: 'Record {seconds} s',
+    renderClip: 'Render {size}',
+    recording: 'Recording…',
+    rendering: 'Rendering {percent}',
+    cancel: 'Cancel',
+    announcement: '{count} births so far today, about {rate} a minute',
+    globeDescription: 'A globe of the Earth. Each country lights up as births are counted there.',
+    milestone: 'Milestone',
+    worldwide: 'Worldwide',
+    moments: 'Moments',
+    continents: {
+      'Africa': 'Africa', 'Asia': 'Asia', 'Europe': 'Europe',
+      'North America': 'North America', 'South America': 'South America', 'Oceania': 'Oceania',
+    },
+    metrics: {
+      'births': 'Births', 'preterm': 'Preterm births', 'twins': 'Twin births',
+      'maternal-deaths': 'Maternal deaths', 'postnatal-care': 'Newborns receiving postnatal care',
+    },
+  },
+  hi: {
+    brand: 'माँ और शिशु देखभाल — महिला स्वास्थ्य',
+    title: 'आज दुनिया भर में जन्म',
+    dailyProgress: 'दिन की प्रगति',
+    zoneLocal: 'स्थानीय',
+    zonePerCountry: 'प्रति देश',
+    perMinute: 'प्रति मिनट',
+    perHour: 'प्रति घंटा',
+    sparkline: 'जन्म / मिनट · पिछले {minutes} मिनट',
+    topCountries: 'आज के शीर्ष देश',
+    byContinent: 'महाद्वीप अनुसार',
+    recentBirths: 'हाल के जन्म',
+    birthsToday: 'आज के जन्म',
+    mapLoading: 'विश्व मानचित्र लोड हो रहा है…',
+    mapUnavailable: 'विश्व मानचित्र उपलब्ध नहीं',
+    live: 'लाइव',
+    replay: 'रीप्ले',
+    play: 'चलाएँ',
+    pause: 'रोकें',
+    replayDate: 'रीप्ले की तारीख',
+    dataSource: 'जन्म आँकड़े: {source}, {year}',
+    snapshot: 'स्नैपशॉट',
+    record: '{seconds} से. रिकॉर्ड करें',
+    renderClip: '{size} रेंडर करें',
+    recording: 'रिकॉर्डिंग…',
+    rendering: 'रेंडरिंग {percent}',
+    cancel: 'रद्द करें',
+    announcement: 'आज अब तक {count} जन्म, लगभग {rate} प्रति मिनट',
+    globeDescription: 'पृथ्वी का ग्लोब। जहाँ जन्म गिना जाता है, वह देश चमक उठता है।',
+    milestone: 'उपलब्धि',
+    worldwide: 'दुनिया भर में',
+    moments: 'यादगार पल',
+    continents: {
+      'Africa': 'अफ़्रीका', 'Asia': 'एशिया', 'Europe': 'यूरोप',
+      'North America': 'उत्तरी अमेरिका', 'South America': 'दक्षिणी अमेरिका', 'Oceania': 'ओशिनिया',
+    },
+    metrics: {
+      'births': 'जन्म', 'preterm': 'समय से पहले जन्म', 'twins': 'जुड़वाँ जन्म',
+      'maternal-deaths': 'मातृ मृत्यु', 'postnatal-care': 'प्रसवोत्तर देखभाल पाने वाले नवजात',
+    },
+  },
+  es: {
+    brand: 'Atención maternoinfantil — Salud de la mujer',
+    title: 'Nacimientos hoy en el mundo',
+    dailyProgress: 'Progreso del día',
+    zoneLocal: 'Local',
+    zonePerCountry: 'Por país',
+    perMinute: 'Por minuto',
+    perHour: 'Por hora',
+    sparkline: 'Nacimientos / min · últimos {minutes} min',
+    topCountries: 'Países con más nacimientos hoy',
+    byContinent: 'Por continente',
+    recentBirths: 'Nacimientos recientes',
+    birthsToday: 'Nacimientos hoy',
+    mapLoading: 'Cargando mapa mundial…',
+    mapUnavailable: 'Mapa mundial no disponible',
+    live: 'EN VIVO',
+    replay: 'Repetición',
+    play: 'Reproducir',
+    pause: 'Pausa',
+    replayDate: 'Fecha de repetición',
+    dataSource: 'Datos de nacimientos: {source}, {year}',
+    snapshot: 'Captura',
+    record: 'Grabar {seconds} s',
+    renderClip: 'Renderizar {size}',
+    recording: 'Grabando…',
+    rendering: 'Renderizando {percent}',
+    cancel: 'Cancelar',
+    announcement: '{count} nacimientos hoy hasta ahora, unos {rate} por minuto',
+    globeDescription: 'Un globo terráqueo. Cada país se ilumina cuando se cuenta un nacimiento allí.',
+    milestone: 'Hito',
+    worldwide: 'En todo el mundo',
+    moments: 'Momentos',
+    continents: {
+      'Africa': 'África', 'Asia': 'Asia', 'Europe': 'Europa',
+      'North America': 'América del Norte', 'South America': 'América del Sur', 'Oceania': 'Oceanía',
+    },
+    metrics: {
+      'births': 'Nacimientos', 'preterm': 'Nacimientos prematuros', 'twins': 'Nacimientos de gemelos',
+      'maternal-deaths': 'Muertes maternas', 'postnatal-care': 'Recién nacidos con atención posnatal',
+    },
+  },
+  fr: {
+    brand: "Santé de la mère et de l'enfant — Santé des femmes",
+    title: "Naissances dans le monde aujourd'hui",
+    dailyProgress: 'Progression du jour',
+    zoneLocal: 'Heure locale',
+    zonePerCountry: 'Par pays',
+    perMinute: 'Par minute',
+    perHour: 'Par heure',
+    sparkline: 'Naissances / min · {minutes} dernières min',
+    topCountries: "Pays en tête aujourd'hui",
+    byContinent: 'Par continent',
+    recentBirths: 'Naissances récentes',
+    birthsToday: "Naissances aujourd'hui",
+    mapLoading: 'Chargement de la carte du monde…',
+    mapUnavailable: 'Carte du monde indisponible',
+    live: 'EN DIRECT',
+    replay: 'Rediffusion',
+    play: 'Lecture',
+    pause: 'Pause',
+    replayDate: 'Date de rediffusion',
+    dataSource: 'Données de naissance : {source}, {year}',
+    snapshot: 'Capture',
+    record: 'Enregistrer {seconds} s',
+    renderClip: 'Rendu {size}',
+    recording: 'Enregistrement…',
+    rendering: 'Rendu {percent}',
+    cancel: 'Annuler',
+    announcement: "{count} naissances aujourd'hui, environ {rate} par minute",
+    globeDescription: "Un globe terrestre. Chaque pays s'illumine quand une naissance y est comptée.",
+    milestone: 'Cap franchi',
+    worldwide: 'Dans le monde',
+    moments: 'Moments',
+    continents: {
+      'Africa': 'Afrique', 'Asia': 'Asie', 'Europe': 'Europe',
+      'North America': 'Amérique du Nord', 'South America': 'Amérique du Sud', 'Oceania': 'Océanie',
+    },
+    metrics: {
+      'births': 'Naissances', 'preterm': 'Naissances prématurées', 'twins': 'Naissances gémellaires',
+      'maternal-deaths': 'Décès maternels', 'postnatal-care': 'Nouveau-nés recevant des soins postnatals',
+    },
+  },
+  ar: {
+    brand: 'رعاية الأم والطفل — صحة المرأة',
+    title: 'عدد المواليد في العالم اليوم',
+    dailyProgress: 'تقدّم اليوم',
+    zoneLocal: 'التوقيت المحلي',
+    zonePerCountry: 'حسب البلد',
+    perMinute: 'في الدقيقة',
+    perHour: 'في الساعة',
+    sparkline: 'مواليد / دقيقة · آخر {minutes} دقيقة',
+    topCountries: 'الدول الأعلى اليوم',
+    byContinent: 'حسب القارة',
+    recentBirths: 'أحدث المواليد',
+    birthsToday: 'مواليد اليوم',
+    mapLoading: 'جارٍ تحميل خريطة العالم…',
+    mapUnavailable: 'خريطة العالم غير متاحة',
+    live: 'مباشر',
+    replay: 'إعادة',
+    play: 'تشغيل',
+    pause: 'إيقاف مؤقت',
+    replayDate: 'تاريخ الإعادة',
+    dataSource: 'بيانات المواليد: {source}، {year}',
+    snapshot: 'لقطة',
+    record: 'تسجيل {seconds} ث',
+    renderClip: 'تصيير {size}',
+    recording: 'جارٍ التسجيل…',
+    rendering: 'جارٍ التصيير {percent}',
+    cancel: 'إلغاء',
+    announcement: '{count} ولادة حتى الآن اليوم، نحو {rate} في الدقيقة',
+    globeDescription: 'كرة أرضية. يضيء كل بلد عند تسجيل ولادة فيه.',
+    milestone: 'إنجاز',
+    worldwide: 'حول العالم',
+    moments: 'لحظات',
+    continents: {
+      'Africa': 'أفريقيا', 'Asia': 'آسيا', 'Europe': 'أوروبا',
+      'North America': 'أمريكا الشمالية', 'South America': 'أمريكا الجنوبية', 'Oceania': 'أوقيانوسيا',
+    },
+    metrics: {
+      'births': 'الولادات', 'preterm': 'الولادات المبكرة', 'twins': 'ولادات التوائم',
+      'maternal-deaths': 'وفيات الأمهات', 'postnatal-care': 'مواليد يتلقون رعاية ما بعد الولادة',
+    },
+  },
+  pt: {
+    brand: 'Cuidado materno-infantil — Saúde da mulher',
+    title: 'Nascimentos hoje no mundo',
+    dailyProgress: 'Progresso do dia',
+    zoneLocal: 'Local',
+    zonePerCountry: 'Por país',
+    perMinute: 'Por minuto',
+    perHour: 'Por hora',
+    sparkline: 'Nascimentos / min · últimos {minutes} min',
+    topCountries: 'Países com mais nascimentos hoje',
+    byContinent: 'Por continente',
+    recentBirths: 'Nascimentos recentes',
+    birthsToday: 'Nascimentos hoje',
+    mapLoading: 'Carregando mapa-múndi…',
+    mapUnavailable: 'Mapa-múndi indisponível',
+    live: 'AO VIVO',
+    replay: 'Reprodução',
+    play: 'Reproduzir',
+    pause: 'Pausar',
+    replayDate: 'Data da reprodução',
+    dataSource: 'Dados de nascimentos: {source}, {year}',
+    snapshot: 'Captura',
+    record: 'Gravar {seconds} s',
+    renderClip: 'Renderizar {size}',
+    recording: 'Gravando…',
+    rendering: 'Renderizando {percent}',
+    cancel: 'Cancelar',
+    announcement: '{count} nascimentos hoje até agora, cerca de {rate} por minuto',
+    globeDescription: 'Um globo terrestre. Cada país se ilumina quando um nascimento é contado nele.',
+    milestone: 'Marco',
+    worldwide: 'No mundo',
+    moments: 'Momentos',
+    continents: {
+      'Africa': 'África', 'Asia': 'Ásia', 'Europe': 'Europa',
+      'North America': 'América do Norte', 'South America': 'América do Sul', 'Oceania': 'Oceania',
+    },
+    metrics: {
+      'births': 'Nascimentos', 'preterm': 'Nascimentos prematuros', 'twins': 'Nascimentos de gêmeos',
+      'maternal-deaths': 'Mortes maternas', 'postnatal-care': 'Recém-nascidos com cuidados pós-natais',
+    },
+  },
+};
+
+export const SUPPORTED_LOCALES = Object.keys(MESSAGES) as LocaleCode[];
+
+const RTL_LOCALES: readonly LocaleCode[] = ['ar'];
+
+// Native numbering systems, and whether `digits=auto` uses them. Hindi campaigns in India
+// normally print Latin digits, so Devanagari digits are opt-in with `digits=native`.
+const NATIVE_DIGITS: Partial<Record<LocaleCode, { numberingSystem: string; byDefault: boolean }>> = {
+  ar: { numberingSystem: 'arab', byDefault: true },
+  hi: { numberingSystem: 'deva', byDefault: false },
+};
+
+const catalogLocale = (tag: string) => {
+  try {
+    const language = new Intl.Locale(tag).language as LocaleCode;
+    return SUPPORTED_LOCALES.includes(language) ? language : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Canonical form of a requested locale tag such as `hi`, `en-IN` or `ar-EG`, or null if it is
+ * malformed or its language has no catalog.
+ */
+export const parseLocaleTag = (value: string) => {
+  try {
+    const [tag] = Intl.getCanonicalLocales(value);
+    return catalogLocale(tag) ? tag : null;
+  } catch {
+    return null;
+  }
+};
+
+const browserLocales = () => (typeof navigator === 'undefined' ? [] : [...(navigator.languages || [navigator.language])]);
+
+export interface I18n {
+  /** Catalog language. */
+  readonly locale: LocaleCode;
+  /** Full BCP 47 tag used for number, time and name formatting. */
+  readonly tag: string;
+  readonly dir: 'ltr' | 'rtl';
+  readonly messages: Messages;
+  format(message: string, values: Record<string, string | number>): string;
+  formatNumber(n: number): string;
+  formatNumberParts(n: number): Intl.NumberFormatPart[];
+  /** A calendar year, without digit grouping. */
+  formatYear(year: number): string;
+  /** Whole percent, rounded down so the bar never reads 100% before midnight. */
+  formatPercent(pct: number): string;
+  formatClock(minuteOfDay: number): string;
+  formatTime(t: number, timeZone: string): string;
+  formatDate(t: number, timeZone: string): string;
+  /** Playback speed such as `3,600×`. */
+  formatSpeed(speed: number): string;
+  formatAge(ms: number): string;
+  countryName(country: CountryBirthRate): string;
+  zoneLabel(mode: DayBoundaryMode): string;
+}
+
+/**
+ * Picks the catalog and formatting locale from `requested` (a config tag) or, when that is null,
+ * the browser's preferred languages, falling back to English. Digit grouping follows the locale,
+ * so `hi` and `en-IN` group in lakhs and crores.
+ */
+export const createI18n = (requested: string | null, digits: DigitStyle = 'auto', preferred = browserLocales()): I18n => {
+  const candidates = requested ? [requested] : preferred;
+  const match = candidates.map(parseLocaleTag).find((tag): tag is string => !!tag) || 'en';
+  const locale = catalogLocale(match) as LocaleCode;
+
+  const native = NATIVE_DIGITS[locale];
+  const explicitNumbering = new Intl.Locale(match).numberingSystem;
+  let tag = match;
+  if (digits === 'latin' || (digits === 'native' && native) || (digits === 'auto' && native?.byDefault && !explicitNumbering)) {
+    tag = new Intl.Locale(match, { numberingSystem: digits === 'latin' ? 'latn' : native!.numberingSystem }).toString();
+  }
+
+  const numberFormat = new Intl.NumberFormat(tag, { maximumFractionDigits: 0 });
+  const yearFormat = new Intl.NumberFormat(tag, { useGrouping: false });
+  const percentFormat = new Intl.NumberFormat(tag, { style: 'percent', maximumFractionDigits: 0 });
+  const clockFormat = new Intl.DateTimeFormat(tag, { timeZone: 'UTC', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+  const ageFormat = new Intl.RelativeTimeFormat(tag, { numeric: 'auto', style: 'short' });
+  const regionNames = locale === 'en' ? null : new Intl.DisplayNames(tag, { type: 'region', fallback: 'none' });
+  const timeFormats = new Map<string, Intl.DateTimeFormat>();
+  const dateFormats = new Map<string, Intl.DateTimeFormat>();
+  const messages = MESSAGES[locale];
+
+  return {
+    locale,
+    tag,
+    dir: RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr',
+    messages,
+    format: (message, values) => message.replace(/\{(\w+)\}/g, (whole, key) => (key in values ? String(values[key]) : whole)),
+    formatNumber: n => numberFormat.format(n),
+    formatNumberParts: n => numberFormat.formatToParts(n),
+    formatYear: year => yearFormat.format(year),
+    formatPercent: pct => percentFormat.format(Math.floor(pct) / 100),
+    formatClock: minuteOfDay => clockFormat.format(minuteOfDay * 60000),
+    formatTime: (t, timeZone) => {
+      let fmt = timeFormats.get(timeZone);
+      if (!fmt) {
+        fmt = new Intl.DateTimeFormat(tag, { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+        timeFormats.set(timeZone, fmt);
+      }
+      return fmt.format(t);
+    },
+    formatDate: (t, timeZone) => {
+      let fmt = dateFormats.get(timeZone);
+      if (!fmt) {
+        fmt = new Intl.DateTimeFormat(tag, { timeZone, day: 'numeric', month: 'short', year: 'numeric' });
+        dateFormats.set(timeZone, fmt);
+      }
+      return fmt.format(t);
+    },
+    formatSpeed: speed => `${numberFormat.format(speed)}×`,
+    formatAge: ms => ageFormat.format(-Math.floor(ms / 1000), 'second'),
+    // The English names in the rate table are curated; other languages use the browser's CLDR names.
+    countryName: country => (regionNames && regionNames.of(country.iso2)) || country.name,
+    zoneLabel: mode => {
+      if (mode.kind === 'local') return messages.zoneLocal;
+      if (mode.kind === 'per-country') return messages.zonePerCountry;
+      return resolveTimeZone(mode).replace(/_/g, ' ');
+    },
+  };
+};
@@ -0,0 +1,112 @@
+import { Continent, CountryBirthRate, MarkerStyle, MetricId } from '../types';
+import { BirthSimulation, BirthSimulationOptions, createBirthSimulation, DEFAULT_SEED } from './birthSimulation';
+
+export interface MetricDefinition {
+  id: MetricId;
+  /**
+   * Events per birth in each continent, and in the countries that stand well apart from theirs.
+   * A country's annual rate is its births times its share.
+   */
+  share: { continents: Record<Continent, number>; countries: Record<string, number> };
+  /** Counter and marker colour; null takes the theme's. */
+  color: string | null;
+  /** Outline on a 24-unit grid, drawn as an SVG stroke. */
+  icon: string;
+  /** How its events show on the globe; null follows the `markers` setting. */
+  marker: MarkerStyle | null;
+}
+
+// Shares are rounded from the WHO and UNICEF estimates for 2020 (preterm births, maternal
+// mortality, newborn postnatal checks within two days) and from national twinning surveys.
+// They are for display, not analysis.
+export const METRICS: readonly MetricDefinition[] = [
+  {
+    id: 'births',
+    share: {
+      continents: { 'Africa': 1, 'Asia': 1, 'Europe': 1, 'North America': 1, 'South America': 1, 'Oceania': 1 },
+      countries: {},
+    },
+    color: null,
+    icon: 'M12 20s-7-4.4-8.6-8.7A4.6 4.6 0 0 1 12 7a4.6 4.6 0 0 1 8.6 4.3C19 15.6 12 20 12 20z',
+    marker: null,
+  },
+  {
+    id: 'preterm',
+    share: {
+      continents: { 'Africa': 0.1, 'Asia': 0.105, 'Europe': 0.07, 'North America': 0.095, 'South America': 0.1, 'Oceania': 0.08 },
+      countries: { IND: 0.13, PAK: 0.144, BGD: 0.162, CHN: 0.061, JPN: 0.057, USA: 0.1, BRA: 0.11 },
+    },
+    color: '#38bdf8',
+    icon: 'M12 3a9 9 0 1 0 0 18a9 9 0 1 0 0-18M12 7v5l3.5 2',
+    marker: 'pulse',
+  },
+  {
+    id: 'twins',
+    share: {
+      continents: { 'Africa': 0.035, 'Asia': 0.017, 'Europe': 0.03, 'North America': 0.028, 'South America': 0.018, 'Oceania': 0.03 },
+      countries: { NGA: 0.05, BEN: 0.055, COD: 0.045, USA: 0.031, CHN: 0.014, JPN: 0.02 },
+    },
+    color: '#f472b6',
+    icon: 'M8.5 8a4.5 4.5 0 1 0 0 9a4.5 4.5 0 1 0 0-9M15.5 8a4.5 4.5 0 1 0 0 9a4.5 4.5 0 1 0 0-9',
+    marker: 'ripple',
+  },
+  {
+    id: 'maternal-deaths',
+    share: {
+      continents: { 'Africa': 0.0053, 'Asia': 0.0011, 'Europe': 0.0001, 'North America': 0.0004, 'South America': 0.0008, 'Oceania': 0.0005 },
+      countries: {
+        NGA: 0.0105, SSD: 0.0122, TCD: 0.0106, SOM: 0.0062, COD: 0.0055, ETH: 0.0027, TZA: 0.0024, EGY: 0.0002,
+        AFG: 0.0062, PAK: 0.0015, BGD: 0.0012, IND: 0.001, IDN: 0.0017, PHL: 0.0008, CHN: 0.0002,
+        USA: 0.0002, MEX: 0.0006, BRA: 0.0007, RUS: 0.0001,
+      },
+    },
+    color: '#e2e8f0',
+    icon: 'M12 3c3 4 6 7.5 6 11a6 6 0 0 1-12 0c0-3.5 3-7 6-11z',
+    marker: 'country',
+  },
+  {
+    id: 'postnatal-care',
+    share: {
+      continents: { 'Africa': 0.5, 'Asia': 0.72, 'Europe': 0.97, 'North America': 0.92, 'South America': 0.88, 'Oceania': 0.85 },
+      countries: { NGA: 0.4, ETH: 0.34, PAK: 0.62, BGD: 0.52, IND: 0.8, USA: 0.97 },
+    },
+    color: '#4ade80',
+    icon: 'M9 3h6v6h6v6h-6v6H9v-6H3V9h6z',
+    marker: 'pulse',
+  },
+];
+
+export const METRIC_IDS: readonly MetricId[] = METRICS.map(m => m.id);
+
+export const METRIC_BY_ID = new Map(METRICS.map(m => [m.id, m]));
+
+/** Each country's yearly count of the metric, derived from its births. */
+export const metricRates = (metric: MetricDefinition, rates: CountryBirthRate[]): CountryBirthRate[] =>
+  metric.id === 'births' ? rates : rates.map(c => ({
+    ...c,
+    birthsPerYear: c.birthsPerYear * (metric.share.countries[c.iso3] ?? metric.share.continents[c.continent]),
+  }));
+
+/** The metric's worldwide yearly count. */
+export const annualRate = (metric: MetricDefinition, rates: CountryBirthRate[]) =>
+  metricRates(metric, rates).reduce((sum, c) => sum + c.birthsPerYear, 0);
+
+export interface MetricSimulation {
+  metric: MetricDefinition;
+  simulation: BirthSimulation;
+}
+
+/**
+ * A simulation of one metric over the same clock and birth figures. Each metric draws from its
+ * own seed, so its events are independent of the births rather than a subset of them; births
+ * keep the default seed and so the same instants as before.
+ */
+export const createMetricSimulation = (metric: MetricDefinition, options: BirthSimulationOptions): MetricSimulation => ({
+  metric,
+  simulation: createBirthSimulation({
+    ...options,
+    rates: metricRates(metric, options.rates),
+    seed: (options.seed ?? DEFAULT_SEED) + METRIC_IDS.indexOf(metric.id),
+    metric: metric.id,
+  }),
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { DayProgress, MetricId, MilestoneRule, SimulationUpdate } from '../types';
+import { BirthSimulation } from './birthSimulation';
+import { createMilestoneWatcher } from './milestones';
+
+const DAY_START = Date.UTC(2026, 9, 19);
+
+// Just enough of a simulation for the watcher: whether it runs live, and per-country counts
+const fakeSimulation = (byCountry: Record<string, number> = {}) => {
+  const state = { live: true, byCountry };
+  const simulation = {
+    isLive: () => state.live,
+    countryBirthsToday: () => new Map(Object.entries(state.byCountry)),
+  } as unknown as BirthSimulation;
+  return { simulation, state };
+};
+
+const update = (births: number, time = DAY_START + 3600000, resync = false): SimulationUpdate =>
+  ({ time, births, progress: {} as DayProgress, events: [], resync });
+
+const watch = (rules: MilestoneRule[], focus: string | null = null) => {
+  const watcher = createMilestoneWatcher(rules, focus, { kind: 'utc' });
+  const { simulation, state } = fakeSimulation();
+  const counts = (births: number, opts: { time?: number; resync?: boolean; metric?: MetricId } = {}) =>
+    watcher.check(opts.metric ?? 'births', simulation, update(births, opts.time, opts.resync)).map(m => m.count);
+  return { counts, state };
+};
+
+const EVERY_100: MilestoneRule = { metric: 'births', every: 100, scope: null };
+
+describe('milestone watcher', () => {
+  it('never celebrates the count it finds on its first update', () => {
+    const { counts } = watch([EVERY_100]);
+    expect(counts(450)).toEqual([]);
+    expect(counts(499)).toEqual([]);
+    expect(counts(500)).toEqual([500]);
+  });
+
+  it('does not fire twice when the count is corrected down and back up', () => {
+    const { counts } = watch([EVERY_100]);
+    counts(90);
+    expect(counts(101)).toEqual([100]);
+    expect(counts(97)).toEqual([]);
+    expect(counts(104)).toEqual([]);
+    expect(counts(199)).toEqual([]);
+    expect(counts(200)).toEqual([200]);
+  });
+
+  it('skips what a resync jumps over, for good', () => {
+    const { counts } = watch([EVERY_100]);
+    counts(90);
+    expect(counts(350, { resync: true })).toEqual([]);
+    expect(counts(360)).toEqual([]);
+    // Corrected below the jump and back again, nothing it skipped turns up late
+    expect(counts(250)).toEqual([]);
+    expect(counts(399)).toEqual([]);
+    expect(counts(400)).toEqual([400]);
+  });
+
+  it('stays quiet during a replay', () => {
+    const { counts, state } = watch([EVERY_100]);
+    counts(90);
+    state.live = false;
+    expect(counts(310)).toEqual([]);
+    state.live = true;
+    expect(counts(320)).toEqual([]);
+    expect(counts(400)).toEqual([400]);
+  });
+
+  it('starts again on a new day without celebrating the rollover', () => {
+    const { counts } = watch([EVERY_100]);
+    counts(90);
+    expect(counts(100)).toEqual([100]);
+    const tomorrow = DAY_START + 86400000;
+    expect(counts(3, { time: tomorrow + 1000 })).toEqual([]);
+    expect(counts(99, { time: tomorrow + 60000 })).toEqual([]);
+    expect(counts(100, { time: tomorrow + 61000 })).toEqual([100]);
+  });
+
+  it('celebrates a milestone shared by two rules once', () => {
+    const { counts } = watch([EVERY_100, { metric: 'births', every: 1000, scope: null }]);
+    counts(950);
+    expect(counts(1001)).toEqual([1000]);
+  });
+
+  it('counts a country rule from that country alone, and only for its metric', () => {
+    const { counts, state } = watch([{ metric: 'births', every: 100, scope: 'focus' }, { metric: 'twins', every: 10, scope: null }], 'IND');
+    state.byCountry = { IND: 90, CHN: 500 };
+    counts(5000);
+    state.byCountry = { IND: 100, CHN: 600 };
+    expect(counts(6000)).toEqual([100]);
+    expect(counts(5, { metric: 'twins' })).toEqual([]);
+    expect(counts(12, { metric: 'twins' })).toEqual([10]);
+  });
+});
@@ -0,0 +1,109 @@
+import { COUNTRY_BY_ISO3 } from '../constants';
+import { DayBoundaryMode, MetricId, Milestone, MilestoneRule, SimulationUpdate } from '../types';
+import { BirthSimulation } from './birthSimulation';
+import { resolveTimeZone, zoneDateKey } from './dayClock';
+import { I18n } from './i18n';
+
+/** Name of the CustomEvent dispatched for every milestone, with the `Milestone` as its detail. */
+export const MILESTONE_EVENT = 'birthcounter:milestone';
+
+const POST_TIMEOUT_MS = 5000;
+
+interface Watch {
+  rule: MilestoneRule;
+  iso3: string | null;
+  /** Zone whose calendar day the count belongs to. */
+  timeZone: string;
+  day: string | null;
+  /** Highest multiple of the rule reached so far today, celebrated or not. */
+  reached: number;
+}
+
+export interface MilestoneWatcher {
+  /** Returns the milestones `update` of `metric`'s simulation passes, if any. */
+  check(metric: MetricId, simulation: BirthSimulation, update: SimulationUpdate): Milestone[];
+}
+
+/**
+ * Watches the counts for round numbers. Each rule keeps the highest multiple reached on the
+ * current day and only celebrates a higher one, so a count corrected down and back up passes
+ * nothing twice. An update after the clock jumped, the first after loading and any during a
+ * replay only move that mark: they never celebrate, and what they skip stays skipped.
+ */
+export const createMilestoneWatcher = (rules: MilestoneRule[], focus: string | null, dayMode: DayBoundaryMode): MilestoneWatcher => {
+  const globalZone = dayMode.kind === 'per-country' ? null : resolveTimeZone(dayMode);
+  const watches: Watch[] = rules.flatMap(rule => {
+    const iso3 = rule.scope === 'focus' ? focus : rule.scope;
+    if (rule.scope === 'focus' && !iso3) return [];
+    // Counted per country, each country's day is its own; the world's total rolls over gradually
+    const timeZone = globalZone ?? (iso3 ? COUNTRY_BY_ISO3.get(iso3)!.timeZone : 'UTC');
+    return [{ rule, iso3, timeZone, day: null, reached: 0 }];
+  });
+  // Rules that overlap, such as every 100,000 and every 1,000,000, share their common milestones
+  const celebrated = new Set<string>();
+
+  return {
+    check: (metric, simulation, update) => {
+      const mine = watches.filter(w => w.rule.metric === metric);
+      if (!mine.length) return [];
+      const live = simulation.isLive();
+      const byCountry = mine.some(w => w.iso3) ? simulation.countryBirthsToday(update.time) : null;
+      const passed: Milestone[] = [];
+
+      mine.forEach(w => {
+        const count = w.iso3 ? byCountry!.get(w.iso3) ?? 0 : update.births;
+        const reached = Math.floor(count / w.rule.every);
+        const day = zoneDateKey(w.timeZone, update.time);
+        if (day !== w.day) {
+          w.day = day;
+          w.reached = reached;
+          return;
+        }
+        if (reached <= w.reached) return;
+        w.reached = reached;
+        if (update.resync || !live) return;
+
+        const milestone: Milestone = {
+          id: `${metric}:${w.iso3 ?? 'world'}:${day}:${reached * w.rule.every}`,
+          metric,
+          iso3: w.iso3,
+          count: reached * w.rule.every,
+          time: update.time,
+          day,
+        };
+        if (celebrated.has(milestone.id)) return;
+        celebrated.add(milestone.id);
+        passed.push(milestone);
+      });
+      return passed;
+    },
+  };
+};
+
+/** The country a milestone counted, in the display language, or the word for the whole world. */
+export const milestonePlace = (milestone: Milestone, i18n: I18n) => {
+  const country = milestone.iso3 ? COUNTRY_BY_ISO3.get(milestone.iso3) : undefined;
+  return country ? i18n.countryName(country) : i18n.messages.worldwide;
+};
+
+/**
+ * Lets the page and local tooling react to a milestone: dispatches a `MILESTONE_EVENT`
+ * CustomEvent on `target` and, when `url` is set, POSTs the milestone to it as JSON. A failed
+ * POST is logged and not retried; the next milestone is sent regardless.
+ */
+export const announceMilestone = (milestone: Milestone, target: EventTarget, url: string | null) => {
+  target.dispatchEvent(new CustomEvent<Milestone>(MILESTONE_EVENT, { detail: milestone }));
+  if (!url) return;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), POST_TIMEOUT_MS);
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(milestone),
+    signal: controller.signal,
+    keepalive: true,
+  })
+    .then(res => { if (!res.ok) throw new Error(`HTTP ${res.status}`); })
+    .catch(err => console.warn('Milestone POST failed', err))
+    .finally(() => clearTimeout(timer));
+};
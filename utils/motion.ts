@@ -0,0 +1,25 @@
+import { MotionSetting } from '../types';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// Share of the configured rotation speed kept when motion is reduced
+export const REDUCED_ROTATION = 0.2;
+
+export const prefersReducedMotion = (setting: MotionSetting) =>
+  setting === 'auto' ? window.matchMedia(REDUCED_MOTION_QUERY).matches : setting === 'reduced';
+
+/**
+ * Calls `listener` with whether motion should be reduced, now and whenever the system
+ * preference changes while `setting` is `auto`. Returns an unsubscribe function.
+ */
+export const watchReducedMotion = (setting: MotionSetting, listener: (reduced: boolean) => void) => {
+  if (setting !== 'auto') {
+    listener(setting === 'reduced');
+    return () => {};
+  }
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  const handleChange = () => listener(query.matches);
+  handleChange();
+  query.addEventListener('change', handleChange);
+  return () => query.removeEventListener('change', handleChange);
+};
@@ -0,0 +1,169 @@
+import { CountryBirthRate, DayBoundaryMode, MarkerStyle, MetricId, SimulationUpdate, Theme } from '../types';
+import { createMarkerTrail } from './birthMarkers';
+import { createBirthSimulation, SimulationClock } from './birthSimulation';
+import { createGlobeRenderer, FLASH_DURATION_MS, GlobeGeometry } from './globeRenderer';
+import { createMetricSimulation, METRIC_BY_ID } from './metrics';
+import { composeScene, createClipEncoder, HudSnapshot, recordCanvas, sceneLayout } from './sceneCapture';
+import { antisolarPoint, subsolarPoint } from './solar';
+
+const DAY_MS = 86400000;
+
+export interface FrameClock extends SimulationClock {
+  readonly frame: number;
+  /** Moves to the next frame and runs every timer that has come due. */
+  advance(): void;
+}
+
+/**
+ * A clock that only moves when told to, one video frame at a time: frame `n` is at
+ * `start + n / fps` seconds of clip time, times `speed` in simulated time. Timers fire at the
+ * first frame at or after their due time, so whatever runs on it sees the same sequence of
+ * instants however long each frame takes to draw.
+ */
+export const createFrameClock = (start: number, fps: number, speed = 1): FrameClock => {
+  let frame = 0;
+  let nextId = 1;
+  const timers = new Map<number, { due: number; fn: () => void }>();
+  const now = () => start + (frame * 1000 / fps) * speed;
+
+  return {
+    get frame() { return frame; },
+    now,
+    setTimeout: (fn, ms) => {
+      const id = nextId++;
+      timers.set(id, { due: now() + ms, fn });
+      return id;
+    },
+    clearTimeout: handle => { timers.delete(handle as number); },
+    rate: () => speed,
+    isLive: () => false,
+    advance: () => {
+      frame++;
+      const t = now();
+      [...timers].filter(([, timer]) => timer.due <= t).forEach(([id, timer]) => {
+        timers.delete(id);
+        timer.fn();
+      });
+    },
+  };
+};
+
+export interface OfflineRenderOptions {
+  width: number;
+  height: number;
+  fps: number;
+  seconds: number;
+  /** Simulated instant of the first frame. */
+  start: number;
+  /** Simulated milliseconds per millisecond of video. */
+  speed: number;
+  rates: CountryBirthRate[];
+  dayMode: DayBoundaryMode;
+  diurnal: boolean;
+  geometry: GlobeGeometry;
+  theme: Theme;
+  dir: 'ltr' | 'rtl';
+  stars: number;
+  tilt: number;
+  /** Degrees per second of video when `speed` is 1; faster clips turn with the Earth instead. */
+  rotation: number;
+  terminator: boolean;
+  cityLights: boolean;
+  markerStyle: MarkerStyle;
+  arcs: boolean;
+  /** Metrics marked alongside the births. */
+  metrics: MetricId[];
+  hud(update: SimulationUpdate): HudSnapshot | null;
+  onProgress?(frame: number, total: number): void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Renders a clip at a fixed resolution into WebM. Every frame is computed from its index on a
+ * frame clock, never from wall time, and encoded with a timestamp from that index, so a slow
+ * machine produces the same clip as a fast one, only later. Browsers without WebCodecs record the
+ * frames in real time at the clip's frame rate instead; there, rendering that falls behind that
+ * pace stretches the clip rather than dropping frames.
+ */
+export const renderClip = async (options: OfflineRenderOptions): Promise<Blob> => {
+  const { width, height, fps, seconds, start, speed, theme, dir, signal } = options;
+  const total = Math.round(seconds * fps);
+  const layout = sceneLayout(width, height, dir);
+
+  const globeCanvas = document.createElement('canvas');
+  const globe = createGlobeRenderer(globeCanvas);
+  globe.setTheme(theme);
+  globe.setStars(options.stars);
+  globe.resize(width, height, 1);
+  globe.setGeometry(options.geometry);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d')!;
+
+  const clock = createFrameClock(start, fps, speed);
+  const simulationOptions = { rates: options.rates, dayMode: options.dayMode, clock, diurnal: options.diurnal };
+  const simulation = createBirthSimulation(simulationOptions);
+  const markers = createMarkerTrail();
+  markers.setGeometry(options.geometry);
+  let latest: SimulationUpdate | null = null;
+  const unsubscribes = [
+    simulation.subscribe(update => {
+      latest = update;
+      markers.add(update.events);
+    }),
+    ...options.metrics.map(id => createMetricSimulation(METRIC_BY_ID.get(id)!, simulationOptions).simulation.subscribe(update => markers.add(update.events))),
+  ];
+
+  const flashSpan = FLASH_DURATION_MS * Math.max(1, speed);
+  // Start with the sunlit side facing the viewer, where most of the flashes are
+  const startLambda = -subsolarPoint(start)[0];
+  const encoder = await createClipEncoder(output, fps);
+  const recording = encoder ? null : recordCanvas(output);
+  const frameMs = 1000 / fps;
+  let due = performance.now();
+
+  try {
+    for (let n = 0; n < total; n++) {
+      if (signal?.aborted) throw new DOMException('Render cancelled', 'AbortError');
+      const t = clock.now();
+      const lambda = speed > 1
+        ? startLambda + 360 * ((t - start) / DAY_MS)
+        : startLambda + options.rotation * (n / fps);
+
+      globe.draw({
+        rotate: [lambda % 360, options.tilt],
+        radius: layout.globe.r,
+        center: [layout.globe.cx, layout.globe.cy],
+        markers: markers.active(t, flashSpan),
+        markerStyle: options.markerStyle,
+        arcs: options.arcs,
+        selected: null,
+        detail: 0,
+        shadows: true,
+        twinkle: false,
+        dtFactor: 0,
+        night: options.terminator ? antisolarPoint(t) : null,
+        cityLights: options.cityLights,
+      });
+      composeScene(ctx, { globe: globeCanvas, fx: null }, latest && options.hud(latest), theme, dir, layout);
+
+      if (encoder) {
+        await encoder.frame(n);
+      } else {
+        due += frameMs;
+        await new Promise(resolve => setTimeout(resolve, Math.max(0, due - performance.now())));
+        recording!.frame();
+      }
+      options.onProgress?.(n + 1, total);
+      clock.advance();
+    }
+  } catch (err) {
+    await (encoder ?? recording!).stop().catch(() => {});
+    throw err;
+  } finally {
+    unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+  return (encoder ?? recording!).stop();
+};
@@ -0,0 +1,89 @@
+import { SimulationClock, systemClock } from './birthSimulation';
+
+export interface PlaybackState {
+  live: boolean;
+  playing: boolean;
+  /** Simulated milliseconds per real millisecond while playing. */
+  speed: number;
+}
+
+export interface PlaybackClock extends SimulationClock {
+  state(): PlaybackState;
+  /** Jumps to simulated instant `t`, no later than real time, and leaves live mode. */
+  seek(t: number): void;
+  setSpeed(speed: number): void;
+  play(): void;
+  pause(): void;
+  goLive(): void;
+  /** Takes on a whole playback state at once, at simulated instant `t` unless live. */
+  restore(next: PlaybackState, t: number): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export const REPLAY_SPEEDS = [1, 60, 720, 3600];
+
+// Accelerated replays tick no faster than the display refreshes; counts stay exact regardless
+const MIN_REPLAY_TICK_MS = 16;
+// A paused clock still ticks now and then so the display picks up day rollovers and resizes
+const PAUSED_TICK_MS = 1000;
+
+/**
+ * A clock that follows `base` in live mode and otherwise replays simulated time from an anchor,
+ * at any speed or paused. Timer delays are in simulated milliseconds and are scaled to real
+ * time, so a simulation driven by this clock runs faster or slower without knowing it. Replays
+ * that catch up with the present switch back to live.
+ */
+export const createPlaybackClock = (base: SimulationClock = systemClock): PlaybackClock => {
+  let state: PlaybackState = { live: true, playing: true, speed: 1 };
+  let anchorSim = 0;
+  let anchorReal = 0;
+  let catchUp: unknown = null;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(l => l());
+
+  const simulatedNow = () => {
+    const real = base.now();
+    if (state.live) return real;
+    const t = anchorSim + (state.playing ? (real - anchorReal) * state.speed : 0);
+    if (t < real) return t;
+    if (catchUp === null) catchUp = base.setTimeout(goLive, 0);
+    return real;
+  };
+
+  const reanchor = (next: Partial<PlaybackState>, t = simulatedNow()) => {
+    anchorSim = Math.min(t, base.now());
+    anchorReal = base.now();
+    state = { ...state, live: false, ...next };
+    notify();
+  };
+
+  function goLive() {
+    if (catchUp !== null) base.clearTimeout(catchUp);
+    catchUp = null;
+    state = { live: true, playing: true, speed: 1 };
+    notify();
+  }
+
+  return {
+    now: simulatedNow,
+    setTimeout: (fn, ms) => {
+      if (state.live || (state.playing && state.speed === 1)) return base.setTimeout(fn, ms);
+      return base.setTimeout(fn, state.playing ? Math.max(ms / state.speed, MIN_REPLAY_TICK_MS) : PAUSED_TICK_MS);
+    },
+    clearTimeout: handle => base.clearTimeout(handle),
+    rate: () => (state.live ? 1 : state.playing ? state.speed : 0),
+    isLive: () => state.live,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    state: () => state,
+    seek: t => reanchor({}, t),
+    setSpeed: speed => reanchor({ speed, playing: true }),
+    play: () => reanchor({ playing: true }),
+    pause: () => reanchor({ playing: false }),
+    goLive,
+    restore: (next, t) => (next.live ? goLive() : reanchor({ playing: next.playing, speed: next.speed }, t)),
+  };
+};
@@ -0,0 +1,96 @@
+export interface QualityLevel {
+  /** Multiplier on the configured globe render scale. */
+  scale: number;
+  /** Geometry detail level; 0 is the full-resolution map. */
+  detail: number;
+  /** Share of the configured comets and pacifiers to keep on screen. */
+  effects: number;
+  /** Glow on flashes and comets, the most expensive fill in a frame. */
+  shadows: boolean;
+  twinkle: boolean;
+  cityLights: boolean;
+}
+
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { scale: 1, detail: 0, effects: 1, shadows: true, twinkle: true, cityLights: true },
+  { scale: 0.85, detail: 0, effects: 0.6, shadows: true, twinkle: true, cityLights: true },
+  { scale: 0.7, detail: 1, effects: 0.3, shadows: false, twinkle: false, cityLights: false },
+  { scale: 0.55, detail: 2, effects: 0, shadows: false, twinkle: false, cityLights: false },
+];
+
+const TARGET_FRAME_MS = 1000 / 60;
+// Smoothing factor for the moving averages; about a quarter second at 60fps
+const SMOOTHING = 0.06;
+// Step down quickly when frames are missed, step back up only after a long stretch of headroom
+const DOWNGRADE_AFTER_MS = 1500;
+const UPGRADE_AFTER_MS = 8000;
+// Each upgrade that has to be undone doubles the wait before the next attempt, up to this cap
+const MAX_UPGRADE_AFTER_MS = 120000;
+// Longer gaps are a hidden tab or a debugger pause, not rendering cost
+const MAX_SAMPLE_MS = 250;
+
+export interface QualityGovernor {
+  level(): QualityLevel;
+  index(): number;
+  /**
+   * Records one frame: the time since the previous frame and the work it took (the slower of the
+   * main thread and the globe renderer). Returns true when the quality level changed.
+   */
+  sample(intervalMs: number, costMs: number): boolean;
+  stats(): { fps: number; frameMs: number; costMs: number };
+}
+
+/**
+ * Watches frame times and trades render scale, geometry detail and effects for a steady 60fps.
+ * A frame interval well above the display's refresh, or a frame cost close to it, counts as slow.
+ */
+export const createQualityGovernor = (adaptive = true): QualityGovernor => {
+  let index = 0;
+  let avgInterval = TARGET_FRAME_MS;
+  let avgCost = 0;
+  let slowFor = 0;
+  let fastFor = 0;
+  let upgradeAfter = UPGRADE_AFTER_MS;
+  let lastChangeWasUpgrade = false;
+
+  const sample = (intervalMs: number, costMs: number) => {
+    if (intervalMs <= 0 || intervalMs > MAX_SAMPLE_MS) return false;
+    avgInterval += (intervalMs - avgInterval) * SMOOTHING;
+    avgCost += (costMs - avgCost) * SMOOTHING;
+    if (!adaptive) return false;
+
+    if (avgInterval > TARGET_FRAME_MS * 1.25 || avgCost > TARGET_FRAME_MS * 0.9) {
+      slowFor += intervalMs;
+      fastFor = 0;
+    } else if (avgCost < TARGET_FRAME_MS * 0.45) {
+      fastFor += intervalMs;
+      slowFor = 0;
+    } else {
+      slowFor = 0;
+      fastFor = 0;
+    }
+
+    if (slowFor > DOWNGRADE_AFTER_MS && index < QUALITY_LEVELS.length - 1) {
+      index++;
+      if (lastChangeWasUpgrade) upgradeAfter = Math.min(upgradeAfter * 2, MAX_UPGRADE_AFTER_MS);
+      lastChangeWasUpgrade = false;
+    } else if (fastFor > upgradeAfter && index > 0) {
+      index--;
+      lastChangeWasUpgrade = true;
+    } else {
+      return false;
+    }
+    // Judge the new level on its own frames
+    slowFor = 0;
+    fastFor = 0;
+    avgInterval = TARGET_FRAME_MS;
+    return true;
+  };
+
+  return {
+    level: () => QUALITY_LEVELS[index],
+    index: () => index,
+    sample,
+    stats: () => ({ fps: 1000 / avgInterval, frameMs: avgInterval, costMs: avgCost }),
+  };
+};
@@ -0,0 +1,339 @@
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+import { Theme } from '../types';
+import { withAlpha } from './color';
+
+/** The HUD text as displayed, already formatted for the locale. */
+export interface HudSnapshot {
+  brand: string;
+  partner: string | null;
+  title: string;
+  total: string;
+  /** The Daily Progress bar, or null where the HUD leaves it out. */
+  progress: { label: string; percent: string; pct: number; clock: string } | null;
+  attribution: string;
+}
+
+export interface SceneLayers {
+  /** The globe, at any resolution; it is stretched over the whole frame. */
+  globe: CanvasImageSource | null;
+  /** Comets, pacifiers and the like, blended as the theme blends them on screen. */
+  fx: CanvasImageSource | null;
+}
+
+/** The live screen's layers, registered by the globe view for captures. */
+export interface LiveScene {
+  /** Layout size in CSS pixels and the resolution the globe is drawn at. */
+  size(): { w: number; h: number; scale: number };
+  layers(): Promise<SceneLayers>;
+}
+
+export interface SceneLayout {
+  /** Output pixels per CSS pixel of the live HUD. */
+  unit: number;
+  portrait: boolean;
+  globe: { cx: number; cy: number; r: number };
+}
+
+// The HUD is laid out at these sizes on a 1920x1080 screen and scaled from there
+const LANDSCAPE_REFERENCE_W = 1920;
+const PORTRAIT_REFERENCE_W = 1080;
+
+/**
+ * Where the globe and HUD sit in a `w`x`h` frame. Landscape frames mirror the live screen;
+ * portrait frames (vertical social clips) put the HUD above a globe centred lower down.
+ */
+export const sceneLayout = (w: number, h: number, dir: 'ltr' | 'rtl'): SceneLayout => {
+  if (h > w) {
+    return { unit: w / PORTRAIT_REFERENCE_W, portrait: true, globe: { cx: w / 2, cy: h * 0.62, r: w * 0.46 } };
+  }
+  const unit = Math.min(w / LANDSCAPE_REFERENCE_W, h / (LANDSCAPE_REFERENCE_W * 9 / 16));
+  return { unit, portrait: false, globe: { cx: w * (dir === 'rtl' ? 0.35 : 0.65), cy: h / 2, r: Math.min(w, h) * 0.36 } };
+};
+
+const font = (weight: number, px: number, family: string) => `${weight} ${px}px ${family}`;
+
+// The same three vignettes the live screen lays over the globe
+const drawOverlays = (ctx: CanvasRenderingContext2D, w: number, h: number, unit: number, theme: Theme, dir: 'ltr' | 'rtl') => {
+  const { OVERLAY } = theme.colors;
+  const side = ctx.createLinearGradient(dir === 'rtl' ? w : 0, 0, dir === 'rtl' ? 0 : w, 0);
+  side.addColorStop(0, withAlpha(OVERLAY, 0.8));
+  side.addColorStop(0.5, withAlpha(OVERLAY, 0.1));
+  side.addColorStop(1, withAlpha(OVERLAY, 0));
+  ctx.fillStyle = side;
+  ctx.fillRect(0, 0, w, h);
+
+  const topH = 128 * unit;
+  const top = ctx.createLinearGradient(0, 0, 0, topH);
+  top.addColorStop(0, withAlpha(OVERLAY, 0.6));
+  top.addColorStop(1, withAlpha(OVERLAY, 0));
+  ctx.fillStyle = top;
+  ctx.fillRect(0, 0, w, topH);
+
+  const bottomH = 192 * unit;
+  const bottom = ctx.createLinearGradient(0, h, 0, h - bottomH);
+  bottom.addColorStop(0, withAlpha(OVERLAY, 0.6));
+  bottom.addColorStop(1, withAlpha(OVERLAY, 0));
+  ctx.fillStyle = bottom;
+  ctx.fillRect(0, h - bottomH, w, bottomH);
+};
+
+/**
+ * Draws the brand, counter, Daily Progress bar and attribution in the positions and styles of
+ * the DOM HUD, so captures read like the screen without rasterising the page.
+ */
+export const drawHud = (
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  hud: HudSnapshot,
+  theme: Theme,
+  dir: 'ltr' | 'rtl',
+  layout = sceneLayout(w, h, dir)
+) => {
+  const { unit: u, portrait } = layout;
+  const { colors, fonts } = theme;
+  const x = (px: number) => (dir === 'rtl' ? w - px : px);
+
+  ctx.save();
+  ctx.direction = dir;
+  ctx.textAlign = 'start';
+  ctx.textBaseline = 'top';
+
+  // Brand
+  ctx.font = font(700, 19.2 * u, fonts.brand);
+  ctx.letterSpacing = `${-0.4 * u}px`;
+  ctx.fillStyle = colors.HEADER_PURPLE;
+  const brand = hud.brand.toUpperCase();
+  ctx.fillText(brand, x(64 * u), 48 * u);
+  const brandWidth = ctx.measureText(brand).width;
+  ctx.fillStyle = colors.YELLOW_VIBRANT;
+  ctx.fillRect(dir === 'rtl' ? w - 64 * u - brandWidth : 64 * u, 48 * u + 25 * u, brandWidth, 4 * u);
+  if (hud.partner) {
+    ctx.font = font(700, 9.6 * u, fonts.brand);
+    ctx.letterSpacing = `${2.9 * u}px`;
+    ctx.fillStyle = withAlpha(colors.TEXT, 0.8);
+    ctx.fillText(hud.partner.toUpperCase(), x(64 * u), 48 * u + 35 * u);
+  }
+
+  // Counter block: vertically centred like the live HUD, or near the top of a portrait frame
+  const left = 80 * u;
+  let y = portrait ? h * 0.14 : h * 0.45 - 90 * u;
+  ctx.font = font(700, 9.6 * u, fonts.ui);
+  ctx.letterSpacing = `${3.8 * u}px`;
+  ctx.fillStyle = withAlpha(colors.YELLOW_VIBRANT, 0.9);
+  ctx.fillText(hud.title.toUpperCase(), x(left), y);
+  y += 18 * u;
+
+  const counterPx = (portrait ? 132 : 88) * u;
+  ctx.font = font(400, counterPx, fonts.counter);
+  ctx.letterSpacing = `${counterPx * 0.02}px`;
+  ctx.shadowColor = colors.COUNTER_GLOW;
+  ctx.shadowBlur = 15 * u;
+  ctx.fillStyle = colors.YELLOW_VIBRANT;
+  ctx.fillText(hud.total, x(left), y);
+  ctx.shadowBlur = 0;
+  y += counterPx + 24 * u;
+
+  // Daily Progress
+  const { progress } = hud;
+  if (progress) {
+    const barWidth = portrait ? w - 2 * left : Math.min(w, 900 * u) * 0.32;
+    ctx.font = font(700, 8 * u, fonts.ui);
+    ctx.letterSpacing = `${3.2 * u}px`;
+    ctx.fillStyle = colors.YELLOW_VIBRANT;
+    ctx.fillText(progress.label.toUpperCase(), x(left), y);
+    ctx.font = font(700, 12 * u, 'monospace');
+    ctx.letterSpacing = `${1.2 * u}px`;
+    ctx.textAlign = 'end';
+    ctx.fillText(progress.percent, x(left + barWidth), y - 3 * u);
+    ctx.textAlign = 'start';
+    y += 24 * u;
+
+    const barStart = dir === 'rtl' ? w - left - barWidth : left;
+    ctx.fillStyle = colors.PROGRESS_TRACK;
+    ctx.beginPath();
+    ctx.roundRect(barStart, y, barWidth, 4 * u, 2 * u);
+    ctx.fill();
+    const filled = barWidth * Math.min(1, Math.max(0, progress.pct / 100));
+    ctx.shadowColor = colors.PROGRESS_GLOW;
+    ctx.shadowBlur = 15 * u;
+    ctx.fillStyle = colors.GOLD;
+    ctx.beginPath();
+    ctx.roundRect(dir === 'rtl' ? barStart + barWidth - filled : barStart, y, filled, 4 * u, 2 * u);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+
+    // Clock marker under the bar's leading edge
+    const markerX = x(left + filled);
+    ctx.fillStyle = colors.YELLOW_VIBRANT;
+    ctx.fillRect(markerX - 0.5 * u, y + 16 * u, 1 * u, 12 * u);
+    ctx.font = font(900, 16 * u, 'monospace');
+    ctx.letterSpacing = `${1.6 * u}px`;
+    const clockWidth = ctx.measureText(progress.clock).width;
+    const boxW = clockWidth + 20 * u;
+    ctx.fillStyle = colors.PANEL;
+    ctx.strokeStyle = colors.PANEL_BORDER;
+    ctx.lineWidth = u;
+    ctx.beginPath();
+    ctx.roundRect(markerX - boxW / 2, y + 32 * u, boxW, 30 * u, 4 * u);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = colors.YELLOW_VIBRANT;
+    ctx.textAlign = 'center';
+    ctx.fillText(progress.clock, markerX, y + 39 * u);
+  }
+
+  // Attribution footer
+  ctx.textAlign = 'center';
+  ctx.font = font(400, 8.8 * u, fonts.ui);
+  ctx.letterSpacing = `${1.3 * u}px`;
+  ctx.textBaseline = 'bottom';
+  ctx.fillStyle = withAlpha(colors.TEXT, 0.5);
+  ctx.fillText(hud.attribution, w / 2, h - 8 * u);
+  ctx.restore();
+};
+
+/**
+ * Paints the full composition, background to HUD, into `ctx` at its canvas size. A capture of
+ * the live screen passes the live layout so the HUD keeps its on-screen proportions.
+ */
+export const composeScene = (
+  ctx: CanvasRenderingContext2D,
+  layers: SceneLayers,
+  hud: HudSnapshot | null,
+  theme: Theme,
+  dir: 'ltr' | 'rtl',
+  layout = sceneLayout(ctx.canvas.width, ctx.canvas.height, dir)
+) => {
+  const { width: w, height: h } = ctx.canvas;
+  const { unit } = layout;
+  ctx.save();
+  ctx.fillStyle = theme.colors.BACKGROUND;
+  ctx.fillRect(0, 0, w, h);
+  if (layers.globe) ctx.drawImage(layers.globe, 0, 0, w, h);
+  if (layers.fx) {
+    ctx.globalCompositeOperation = theme.fxBlend === 'screen' ? 'screen' : 'source-over';
+    ctx.drawImage(layers.fx, 0, 0, w, h);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+  drawOverlays(ctx, w, h, unit, theme, dir);
+  ctx.restore();
+  if (hud) drawHud(ctx, w, h, hud, theme, dir, layout);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+});
+
+/** Names capture files after the moment shown, e.g. `births-2026-10-19T09-30-00Z.png`. */
+export const captureFilename = (t: number, extension: string) =>
+  `births-${new Date(t).toISOString().replace(/\.\d+Z$/, 'Z').replace(/:/g, '-')}.${extension}`;
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const webmSupported = () =>
+  typeof MediaRecorder !== 'undefined' && WEBM_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+export interface CanvasRecording {
+  /** Asks for the canvas's current pixels to become the next video frame. */
+  frame(): void;
+  stop(): Promise<Blob>;
+}
+
+/**
+ * Records `canvas` to WebM. Frames are only taken when `frame()` is called, so a caller that
+ * paints on its own schedule decides exactly which pixels make it into the video.
+ */
+export const recordCanvas = (canvas: HTMLCanvasElement, bitsPerSecond = 12_000_000): CanvasRecording => {
+  const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error('WebM recording is not supported in this browser');
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as MediaStreamTrack & { requestFrame(): void };
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: bitsPerSecond });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+  recorder.start(1000);
+
+  return {
+    frame: () => track.requestFrame(),
+    stop: () => new Promise(resolve => {
+      recorder.onstop = () => {
+        track.stop();
+        resolve(new Blob(chunks, { type: 'video/webm' }));
+      };
+      recorder.stop();
+    }),
+  };
+};
+
+// WebCodecs configurations tried in order, each with the Matroska codec id it is muxed under
+const CLIP_CODECS = [
+  { codec: 'vp09.00.10.08', muxCodec: 'V_VP9' },
+  { codec: 'vp8', muxCodec: 'V_VP8' },
+];
+// A keyframe every two seconds keeps clips seekable
+const KEYFRAME_SECONDS = 2;
+// Frames that may wait in the encoder before drawing pauses for it
+const MAX_ENCODE_QUEUE = 8;
+
+export interface ClipEncoder {
+  /** Encodes the canvas's current pixels as frame `index`, timed at `index / fps` seconds. */
+  frame(index: number): Promise<void>;
+  stop(): Promise<Blob>;
+}
+
+/**
+ * Encodes `canvas` to WebM one frame at a time with WebCodecs. Each frame is timestamped from
+ * its index rather than from when it was drawn, so the clip plays at `fps` however long the
+ * frames took to draw. Resolves to null where the browser cannot encode VP9 or VP8.
+ */
+export const createClipEncoder = async (canvas: HTMLCanvasElement, fps: number, bitsPerSecond = 12_000_000): Promise<ClipEncoder | null> => {
+  if (typeof VideoEncoder === 'undefined') return null;
+  const { width, height } = canvas;
+  let chosen: { config: VideoEncoderConfig; muxCodec: string } | null = null;
+  for (const { codec, muxCodec } of CLIP_CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate: bitsPerSecond, framerate: fps };
+    const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+    if (support?.supported) {
+      chosen = { config, muxCodec };
+      break;
+    }
+  }
+  if (!chosen) return null;
+
+  const muxer = new Muxer({ target: new ArrayBufferTarget(), video: { codec: chosen.muxCodec, width, height, frameRate: fps } });
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: err => { failure = err; },
+  });
+  encoder.configure(chosen.config);
+  const frameUs = 1e6 / fps;
+  const keyframeEvery = Math.round(fps * KEYFRAME_SECONDS);
+
+  return {
+    frame: async index => {
+      if (failure) throw failure;
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameUs), duration: Math.round(frameUs) });
+      encoder.encode(frame, { keyFrame: index % keyframeEvery === 0 });
+      frame.close();
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) await new Promise(resolve => setTimeout(resolve, 5));
+    },
+    stop: async () => {
+      if (!failure) await encoder.flush().catch(err => { failure = err; });
+      if (encoder.state !== 'closed') encoder.close();
+      if (failure) throw failure;
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: 'video/webm' });
+    },
+  };
+};
@@ -0,0 +1,227 @@
+import { SimulationClock } from './birthSimulation';
+import { PlaybackClock, PlaybackState } from './playbackClock';
+
+export type SyncRole = 'leader' | 'follower';
+
+export interface SyncStatus {
+  role: SyncRole;
+  /** Screens heard from recently, this one included. */
+  screens: number;
+  connected: boolean;
+  /** Milliseconds added to this machine's clock to match the leader's. */
+  offset: number;
+}
+
+export interface ScreenSync {
+  /** Real time shared by every screen in the room; drive the playback clock from it. */
+  readonly base: SimulationClock;
+  status(): SyncStatus;
+  subscribe(listener: () => void): () => void;
+  /** Exchanges heartbeats and keeps `clock` in step with the leader's. Returns a stop function. */
+  start(clock: PlaybackClock): () => void;
+}
+
+interface SharedPlayback extends PlaybackState {
+  /** Simulated time at `sentAt`. */
+  time: number;
+}
+
+type SyncMessage =
+  | { type: 'beat'; id: string; sentAt: number; playback: SharedPlayback | null }
+  // A follower's own scrub or speed change, for the leader to adopt and pass on
+  | { type: 'playback'; id: string; sentAt: number; playback: SharedPlayback };
+
+interface SyncTransport {
+  send(msg: SyncMessage): void;
+  onMessage(listener: (msg: SyncMessage) => void): void;
+  connected(): boolean;
+  close(): void;
+}
+
+const HEARTBEAT_MS = 1000;
+// A screen not heard from for this long has gone; if it led, the next oldest takes over
+const PEER_TIMEOUT_MS = 3500;
+// Recent clock-offset samples kept from the leader; the least delayed of them is used
+const OFFSET_SAMPLES = 10;
+// Real-time drift a follower's replay may build up before it is pulled back into step
+const DRIFT_TOLERANCE_MS = 250;
+const RELAY_RETRY_MIN_MS = 1000;
+const RELAY_RETRY_MAX_MS = 10000;
+
+// --- Transports ---
+
+const createChannelTransport = (room: string): SyncTransport => {
+  const channel = new BroadcastChannel(`birthcounter.sync:${room}`);
+  return {
+    send: msg => channel.postMessage(msg),
+    onMessage: listener => { channel.onmessage = e => listener(e.data); },
+    connected: () => true,
+    close: () => channel.close(),
+  };
+};
+
+// The relay forwards each text message to the other sockets on the same path, so the room is
+// the path. It reconnects with backoff; heartbeats carry the whole state, so nothing is queued.
+const createRelayTransport = (url: string, room: string): SyncTransport => {
+  const target = new URL(url);
+  target.pathname = `/${encodeURIComponent(room)}`;
+  let socket: WebSocket | null = null;
+  let listener: ((msg: SyncMessage) => void) | null = null;
+  let retryMs = RELAY_RETRY_MIN_MS;
+  let retry: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const connect = () => {
+    socket = new WebSocket(target.href);
+    socket.onopen = () => { retryMs = RELAY_RETRY_MIN_MS; };
+    socket.onmessage = e => {
+      try {
+        listener?.(JSON.parse(e.data));
+      } catch {
+        // Not one of ours; the relay may be shared
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      retry = setTimeout(connect, retryMs);
+      retryMs = Math.min(retryMs * 2, RELAY_RETRY_MAX_MS);
+    };
+  };
+  connect();
+
+  return {
+    send: msg => { if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg)); },
+    onMessage: next => { listener = next; },
+    connected: () => socket?.readyState === WebSocket.OPEN,
+    close: () => {
+      closed = true;
+      if (retry) clearTimeout(retry);
+      socket?.close();
+    },
+  };
+};
+
+// --- Session ---
+
+/**
+ * Joins the screens in `room`, over a BroadcastChannel between windows of one browser or over a
+ * WebSocket relay between machines. The oldest screen present leads: the others set their clock
+ * by its heartbeats and follow its playback, and any screen's own playback changes go through
+ * it. When the leader stops beating, the next oldest takes over from the shared time it already
+ * has. Births are a pure function of time, so matching clocks is all it takes for every screen
+ * to count and mark the same births.
+ */
+export const createScreenSync = ({ room, relayUrl }: { room: string; relayUrl: string | null }): ScreenSync => {
+  // Join time first, so ids sort by seniority
+  const id = `${Date.now().toString(36).padStart(9, '0')}:${Math.random().toString(36).slice(2, 8)}`;
+  const peers = new Map<string, number>();
+  const samples: number[] = [];
+  const listeners = new Set<() => void>();
+  let offset = 0;
+  let leaderId = id;
+  let transport: SyncTransport | null = null;
+
+  const base: SimulationClock = {
+    now: () => Date.now() + offset,
+    setTimeout: (fn, ms) => setTimeout(fn, ms),
+    clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  };
+
+  const status = (): SyncStatus => ({
+    role: leaderId === id ? 'leader' : 'follower',
+    screens: peers.size + 1,
+    connected: transport?.connected() ?? false,
+    offset,
+  });
+
+  const notify = () => listeners.forEach(l => l());
+
+  const electLeader = () => {
+    const now = Date.now();
+    peers.forEach((seen, peer) => { if (now - seen > PEER_TIMEOUT_MS) peers.delete(peer); });
+    const next = [id, ...peers.keys()].sort()[0];
+    if (next !== leaderId) {
+      leaderId = next;
+      samples.length = 0;
+    }
+  };
+
+  const start = (clock: PlaybackClock) => {
+    transport = relayUrl ? createRelayTransport(relayUrl, room) : createChannelTransport(room);
+    let applying = false;
+
+    const sharedPlayback = (): SharedPlayback => ({ ...clock.state(), time: clock.now() });
+    const beat = () => transport!.send({ type: 'beat', id, sentAt: base.now(), playback: leaderId === id ? sharedPlayback() : null });
+
+    const adopt = (playback: SharedPlayback, sentAt: number) => {
+      const elapsed = Math.max(0, base.now() - sentAt);
+      const time = playback.time + (playback.playing ? elapsed * playback.speed : 0);
+      const current = clock.state();
+      const inStep = current.live === playback.live
+        && (playback.live || (
+          current.playing === playback.playing
+          && current.speed === playback.speed
+          && Math.abs(clock.now() - time) <= DRIFT_TOLERANCE_MS * Math.max(1, playback.speed)
+        ));
+      if (inStep) return;
+      applying = true;
+      try {
+        clock.restore(playback, time);
+      } finally {
+        applying = false;
+      }
+    };
+
+    transport.onMessage(msg => {
+      if (msg.id === id) return;
+      peers.set(msg.id, Date.now());
+      electLeader();
+      if (msg.type === 'beat' && msg.id === leaderId) {
+        // The leader's clock reading less our own is the offset plus the message's delay; the
+        // largest recent reading is the least delayed
+        samples.push(msg.sentAt - Date.now());
+        if (samples.length > OFFSET_SAMPLES) samples.shift();
+        offset = Math.max(...samples);
+        if (msg.playback) adopt(msg.playback, msg.sentAt);
+      } else if (msg.type === 'playback' && leaderId === id) {
+        adopt(msg.playback, msg.sentAt);
+      }
+      notify();
+    });
+
+    // The leader announces every change at once; a follower hands its own to the leader
+    const unsubscribe = clock.subscribe(() => {
+      if (leaderId === id) beat();
+      else if (!applying) transport!.send({ type: 'playback', id, sentAt: base.now(), playback: sharedPlayback() });
+    });
+
+    const timer = setInterval(() => {
+      electLeader();
+      beat();
+      notify();
+    }, HEARTBEAT_MS);
+    beat();
+    notify();
+
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+      transport?.close();
+      transport = null;
+      peers.clear();
+      leaderId = id;
+      notify();
+    };
+  };
+
+  return {
+    base,
+    status,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    start,
+  };
+};
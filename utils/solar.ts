@@ -0,0 +1,30 @@
+const DEG = Math.PI / 180;
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const DAY_MS = 86400000;
+
+const normalizeLongitude = (lon: number) => ((((lon + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Longitude and latitude, in degrees, of the point where the sun is overhead at instant `t`.
+ * Uses the low-precision solar ephemeris from the Astronomical Almanac, good to about 0.01°
+ * between 1950 and 2050, which is far finer than a pixel on the globe.
+ */
+export const subsolarPoint = (t: number): [number, number] => {
+  const d = (t - J2000_MS) / DAY_MS;
+  const meanAnomaly = (357.529 + 0.98560028 * d) * DEG;
+  const meanLongitude = 280.459 + 0.98564736 * d;
+  const eclipticLongitude = (meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly)) * DEG;
+  const obliquity = (23.439 - 0.00000036 * d) * DEG;
+
+  const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(eclipticLongitude), Math.cos(eclipticLongitude));
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude));
+  const siderealDegrees = (18.697374558 + 24.06570982441908 * d) * 15;
+
+  return [normalizeLongitude(rightAscension / DEG - siderealDegrees), declination / DEG];
+};
+
+/** The point opposite the sun, at the centre of the night hemisphere. */
+export const antisolarPoint = (t: number): [number, number] => {
+  const [lon, lat] = subsolarPoint(t);
+  return [normalizeLongitude(lon + 180), -lat];
+};
@@ -0,0 +1,62 @@
+import * as d3 from 'd3';
+import { feature } from 'topojson-client';
+import worldAtlasUrl from 'world-atlas/countries-110m.json?url';
+import { COUNTRY_BIRTH_RATES } from '../constants';
+import { CountryBirthRate, WorldGeometry } from '../types';
+import { buildFeatureIndex } from './countries';
+import type { GlobeGeometry } from './globeRenderer';
+
+const cache = new Map<string, Promise<WorldGeometry>>();
+
+const toFeatureCollection = (data: any) => {
+  if (data?.type === 'Topology') {
+    const key = data.objects.countries ? 'countries' : Object.keys(data.objects)[0];
+    return feature(data, data.objects[key]);
+  }
+  if (data?.type === 'FeatureCollection') return data;
+  throw new Error('Unrecognised world geometry format');
+};
+
+const fetchGeometry = (url: string) => {
+  let pending = cache.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .then(res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+        return res.json();
+      })
+      .then(data => {
+        const collection = toFeatureCollection(data);
+        collection.features.forEach((f: any) => { f.centroid = d3.geoCentroid(f); });
+        const { index, unresolved } = buildFeatureIndex(collection.features, COUNTRY_BIRTH_RATES);
+        if (unresolved.length) console.warn("No map feature for countries:", unresolved.join(', '));
+        return { collection, index };
+      });
+    pending.catch(() => cache.delete(url));
+    cache.set(url, pending);
+  }
+  return pending;
+};
+
+/**
+ * Loads country geometry (TopoJSON or GeoJSON) once per URL, with centroids and the ISO3 index
+ * precomputed. An override URL that fails falls back to the bundled world-atlas 110m file.
+ */
+export const loadWorldGeometry = (overrideUrl?: string | null): Promise<WorldGeometry> => {
+  if (!overrideUrl) return fetchGeometry(worldAtlasUrl);
+  return fetchGeometry(overrideUrl).catch(err => {
+    console.warn("World geometry override failed, using bundled map", err);
+    return fetchGeometry(worldAtlasUrl);
+  });
+};
+
+/**
+ * The renderer's view of a map: its features, each one's ISO3 code and that country's yearly
+ * births in `rates`, aligned by index.
+ */
+export const toGlobeGeometry = (geo: WorldGeometry, rates: CountryBirthRate[]): GlobeGeometry => {
+  const codeOf = new Map([...geo.index].map(([iso3, f]) => [f, iso3]));
+  const birthsOf = new Map(rates.map(c => [c.iso3, c.birthsPerYear]));
+  const codes: (string | null)[] = geo.collection.features.map((f: any) => codeOf.get(f) || null);
+  return { collection: geo.collection, codes, births: codes.map(code => (code ? birthsOf.get(code) ?? null : null)) };
+};
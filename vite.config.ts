@@ -1,19 +1,38 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
 
 export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+    // `vite build --mode lib` builds the <birth-counter> element instead of the full-screen app
+    const lib = mode === 'lib';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      css: {
+        postcss: {
+          plugins: [
+            // Only the embed imports CSS; the full-screen page still uses the CDN build
+            tailwindcss({
+              content: [path.resolve(__dirname, 'embed.tsx'), path.resolve(__dirname, 'components/**/*.{ts,tsx}')],
+            }),
+          ],
+        },
       },
+      define: lib ? { 'process.env.NODE_ENV': JSON.stringify('production') } : {},
+      // Asset and worker URLs resolve against the script, wherever the partner page loads it from
+      base: lib ? './' : undefined,
+      build: lib ? {
+        outDir: 'dist/embed',
+        lib: {
+          entry: path.resolve(__dirname, 'embed.tsx'),
+          formats: ['es' as const],
+          fileName: 'birth-counter',
+        },
+      } : {},
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),